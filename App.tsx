@@ -1,56 +1,42 @@
 
 
-import React, { useState, useEffect } from 'react';
-import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
-import type { FaceLandmarkerResult, GazePoint } from './types';
+import React, { useState } from 'react';
+import type { DwellClickSettings, GazeStreamingSettings } from './types';
 import { Header } from './components/Header';
 import { Loader } from './components/Loader';
 import { WebcamLandmarker } from './components/WebcamLandmarker';
 import { GazeFollower } from './components/GazeFollower';
+import { GazeEventsPanel } from './components/GazeEventsPanel';
+import { DwellClickLayer } from './components/DwellClickLayer';
+import { DwellClickSettingsPanel } from './components/DwellClickSettingsPanel';
+import { SessionReplay } from './components/SessionReplay';
+import { BlendShapesDisplay } from './components/BlendShapesDisplay';
+import { ImageLandmarker } from './components/ImageLandmarker';
+import { GazeProvider, useGazeSession } from './components/GazeProvider';
+import { GazeStreamBridge } from './components/GazeStreamBridge';
+import { GazeStreamingPanel } from './components/GazeStreamingPanel';
+import { SessionLogPanel } from './components/SessionLogPanel';
+import { AoiPanel } from './components/AoiPanel';
+import { AttentionMapPanel } from './components/AttentionMapPanel';
+import { DEFAULT_DWELL_CLICK_SETTINGS } from './utils/dwellClick';
+import { DEFAULT_GAZE_STREAMING_SETTINGS, GazeStreamClient } from './utils/gazeStreaming';
+import { SessionLogger } from './utils/sessionLogger';
 
-const App: React.FC = () => {
-    const [faceLandmarker, setFaceLandmarker] = useState<FaceLandmarker | null>(null);
-    const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-    const [isCalibrating, setIsCalibrating] = useState(false);
-    const [gazePoint, setGazePoint] = useState<GazePoint | null>(null);
-    const [highSensitivity, setHighSensitivity] = useState(false);
+// Gaze samples flow through the provider's store, so this only re-renders on session changes.
+const AppContent: React.FC = () => {
+    const {
+        faceLandmarker, loading, error,
+        isCalibrating,
+        blendshapesEnabled, setBlendshapesEnabled,
+        eventThresholds, setEventThresholds,
+        screenGeometry, setScreenGeometry,
+        publishGaze,
+    } = useGazeSession();
+    const [dwellClickSettings, setDwellClickSettings] = useState<DwellClickSettings>(DEFAULT_DWELL_CLICK_SETTINGS);
+    const [streamingSettings, setStreamingSettings] = useState<GazeStreamingSettings>(DEFAULT_GAZE_STREAMING_SETTINGS);
+    const [streamClient] = useState(() => new GazeStreamClient());
+    const [sessionLogger] = useState(() => new SessionLogger());
 
-
-    useEffect(() => {
-        const initializeFaceLandmarker = async () => {
-            try {
-                const filesetResolver = await FilesetResolver.forVisionTasks(
-                    "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm"
-                );
-
-                const landmarker = await FaceLandmarker.createFromOptions(filesetResolver, {
-                    baseOptions: {
-                        modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task`,
-                        delegate: "GPU"
-                    },
-                    outputFaceBlendshapes: false,
-                    outputFacialTransformationMatrixes: true,
-                    runningMode: "VIDEO",
-                    numFaces: 1
-                });
-
-                setFaceLandmarker(landmarker);
-            } catch (e) {
-                if (e instanceof Error) {
-                    setError(`Initialization Error: ${e.message}`);
-                } else {
-                    setError("An unknown error occurred during initialization.");
-                }
-                console.error(e);
-            } finally {
-                setLoading(false);
-            }
-        };
-
-        initializeFaceLandmarker();
-    }, []);
-    
     const mainContent = () => {
         if (loading) return <Loader />;
         if (error) return <p className="text-center text-red-500 bg-red-900/50 p-4 rounded-lg">{error}</p>;
@@ -58,14 +44,26 @@ const App: React.FC = () => {
             return (
                  <div className="flex justify-center">
                     <div className="w-full max-w-2xl">
-                        <WebcamLandmarker 
-                            faceLandmarker={faceLandmarker}
-                            isCalibrating={isCalibrating}
-                            setIsCalibrating={setIsCalibrating}
-                            onGazeUpdate={setGazePoint}
-                            highSensitivity={highSensitivity}
-                            setHighSensitivity={setHighSensitivity}
-                        />
+                        <WebcamLandmarker faceLandmarker={faceLandmarker} />
+                        {!isCalibrating && (
+                            <div className="mt-6 space-y-6">
+                                <BlendShapesDisplay
+                                    enabled={blendshapesEnabled}
+                                    onEnabledChange={setBlendshapesEnabled}
+                                />
+                                <DwellClickSettingsPanel settings={dwellClickSettings} onChange={setDwellClickSettings} />
+                                <GazeEventsPanel
+                                    thresholds={eventThresholds}
+                                    onThresholdsChange={setEventThresholds}
+                                    geometry={screenGeometry}
+                                    onGeometryChange={setScreenGeometry}
+                                />
+                                <GazeStreamingPanel client={streamClient} settings={streamingSettings} onChange={setStreamingSettings} />
+                                <AoiPanel />
+                                <SessionLogPanel logger={sessionLogger} />
+                                <AttentionMapPanel logger={sessionLogger} />
+                            </div>
+                        )}
                     </div>
                 </div>
             )
@@ -76,13 +74,31 @@ const App: React.FC = () => {
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 font-sans p-4 sm:p-6 md:p-8">
-            <GazeFollower point={!isCalibrating ? gazePoint : null} />
+            <GazeFollower />
+            <DwellClickLayer settings={dwellClickSettings} />
+            <GazeStreamBridge client={streamClient} settings={streamingSettings} />
             <Header />
             <main className="max-w-7xl mx-auto mt-8">
                 {mainContent()}
+                {/* Replay needs neither the camera nor the model, so it is available even if initialization failed. */}
+                {!isCalibrating && (
+                    <div className="flex justify-center mt-6">
+                        <div className="w-full max-w-2xl space-y-6">
+                            <SessionReplay onGazeUpdate={publishGaze} />
+                            {/* Image analysis loads its own IMAGE-mode landmarker on first use. */}
+                            <ImageLandmarker />
+                        </div>
+                    </div>
+                )}
             </main>
         </div>
     );
 };
 
+const App: React.FC = () => (
+    <GazeProvider>
+        <AppContent />
+    </GazeProvider>
+);
+
 export default App;
\ No newline at end of file
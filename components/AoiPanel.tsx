@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import type { AoiMetrics, AoiRegion } from '../types';
+import { AOI_ATTRIBUTE, parseAoiRegion, saveAoiRegions } from '../utils/aoi';
+import { downloadBlob } from '../utils/download';
+import { useAoiTracker } from './GazeProvider';
+
+// Metrics are read on a timer rather than per sample, so tracking doesn't re-render the panel every frame.
+const METRICS_REFRESH_MS = 1000;
+
+const KIND_LABELS: Record<AoiRegion['kind'], { label: string; placeholder: string }> = {
+    rect: { label: 'Rectangle', placeholder: '0.1, 0.1, 0.3, 0.2' },
+    polygon: { label: 'Polygon', placeholder: '0.5, 0.1\n0.9, 0.5\n0.5, 0.9' },
+};
+
+const inputClass = 'bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2';
+const buttonClass = 'py-2 px-4 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+const formatSeconds = (ms: number | null) => ms === null ? '–' : `${(ms / 1000).toFixed(1)}s`;
+
+const metricsToCsv = (metrics: AoiMetrics[]) => [
+    'aoi,time_to_first_fixation_ms,dwell_time_ms,fixation_count,visit_count,revisit_count',
+    ...metrics.map(m => [
+        `"${m.name.replace(/"/g, '""')}"`,
+        m.timeToFirstFixation === null ? '' : Math.round(m.timeToFirstFixation),
+        Math.round(m.dwellTime), m.fixationCount, m.visitCount, m.revisitCount,
+    ].join(',')),
+].join('\n') + '\n';
+
+// Outlines the declared regions over the whole page; elements are visible on their own.
+const AoiRegionOverlay: React.FC<{ regions: AoiRegion[] }> = ({ regions }) => (
+    <svg className="fixed inset-0 w-screen h-screen pointer-events-none z-[90]" viewBox="0 0 1 1" preserveAspectRatio="none" aria-hidden="true">
+        {regions.map((region, i) => region.kind === 'rect' ? (
+            <rect key={i} x={region.u} y={region.v} width={region.width} height={region.height}
+                fill="rgba(250, 204, 21, 0.08)" stroke="rgb(250, 204, 21)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        ) : (
+            <polygon key={i} points={region.points.map(p => `${p.u},${p.v}`).join(' ')}
+                fill="rgba(250, 204, 21, 0.08)" stroke="rgb(250, 204, 21)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        ))}
+    </svg>
+);
+
+/**
+ * Summarizes gaze per area of interest and edits the screen regions. Elements opt in with the
+ * data-gaze-aoi attribute or useAoiRef.
+ */
+export const AoiPanel: React.FC = () => {
+    const tracker = useAoiTracker();
+    const [regions, setRegions] = useState<AoiRegion[]>(() => tracker.getRegions());
+    const [metrics, setMetrics] = useState<AoiMetrics[]>(() => tracker.getAllMetrics());
+    const [showRegions, setShowRegions] = useState(false);
+    const [name, setName] = useState('');
+    const [kind, setKind] = useState<AoiRegion['kind']>('rect');
+    const [shapeText, setShapeText] = useState('');
+    const [formError, setFormError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const refresh = () => setMetrics(tracker.getAllMetrics());
+        refresh();
+        const interval = window.setInterval(refresh, METRICS_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [tracker, regions]);
+
+    const updateRegions = (next: AoiRegion[]) => {
+        tracker.setRegions(next);
+        saveAoiRegions(next);
+        setRegions(next);
+    };
+
+    const handleAdd = () => {
+        try {
+            updateRegions([...regions, parseAoiRegion(name, kind, shapeText)]);
+            setName('');
+            setShapeText('');
+            setFormError(null);
+        } catch (e) {
+            setFormError(e instanceof Error ? e.message : 'Invalid area.');
+        }
+    };
+
+    const handleReset = () => {
+        tracker.reset();
+        setMetrics(tracker.getAllMetrics());
+    };
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            {showRegions && <AoiRegionOverlay regions={regions} />}
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Areas of Interest</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="w-4 h-4 accent-cyan-500"
+                        checked={showRegions}
+                        onChange={(e) => setShowRegions(e.target.checked)}
+                    />
+                    Show regions
+                </label>
+            </div>
+            <p className="text-xs text-gray-400">
+                Page elements become areas with the <code>{AOI_ATTRIBUTE}="name"</code> attribute; screen regions are added below.
+                Areas with the same name are measured together.
+            </p>
+
+            {metrics.length === 0 ? (
+                <p className="text-sm text-gray-400">No areas declared yet.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-xs font-mono text-gray-300">
+                        <thead className="text-gray-400">
+                            <tr>
+                                <th className="text-left font-normal pb-1">Area</th>
+                                <th className="text-right font-normal pb-1">First fix.</th>
+                                <th className="text-right font-normal pb-1">Dwell</th>
+                                <th className="text-right font-normal pb-1">Fixations</th>
+                                <th className="text-right font-normal pb-1">Revisits</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {metrics.map(m => {
+                                const regionIndex = regions.findIndex(r => r.name === m.name);
+                                return (
+                                    <tr key={m.name} className="border-t border-gray-700">
+                                        <td className="py-1 font-sans truncate max-w-[10rem]" title={m.name}>{m.name}</td>
+                                        <td className="py-1 text-right">{formatSeconds(m.timeToFirstFixation)}</td>
+                                        <td className="py-1 text-right">{formatSeconds(m.dwellTime)}</td>
+                                        <td className="py-1 text-right">{m.fixationCount}</td>
+                                        <td className="py-1 text-right">{m.revisitCount}</td>
+                                        <td className="py-1 text-right">
+                                            {regionIndex >= 0 && (
+                                                <button
+                                                    onClick={() => updateRegions(regions.filter((_, i) => i !== regionIndex))}
+                                                    className="text-gray-500 hover:text-red-400"
+                                                    aria-label={`Remove region ${m.name}`}
+                                                >
+                                                    ✕
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div className="flex gap-3">
+                <button onClick={handleReset} className={buttonClass}>Reset Metrics</button>
+                <button
+                    onClick={() => downloadBlob(new Blob([metricsToCsv(tracker.getAllMetrics())], { type: 'text/csv' }), 'aoi-metrics.csv')}
+                    disabled={metrics.length === 0}
+                    className={buttonClass}
+                >
+                    Export CSV
+                </button>
+            </div>
+
+            <fieldset className="pt-4 border-t border-gray-700 space-y-2">
+                <legend className="text-sm font-medium text-gray-300">Add Screen Region</legend>
+                <div className="flex gap-3">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Name"
+                        aria-label="Region name"
+                        className={`${inputClass} flex-grow`}
+                    />
+                    <select value={kind} onChange={(e) => setKind(e.target.value as AoiRegion['kind'])} aria-label="Region shape" className={inputClass}>
+                        {(Object.keys(KIND_LABELS) as AoiRegion['kind'][]).map(k => (
+                            <option key={k} value={k}>{KIND_LABELS[k].label}</option>
+                        ))}
+                    </select>
+                </div>
+                <textarea
+                    value={shapeText}
+                    onChange={(e) => setShapeText(e.target.value)}
+                    rows={kind === 'rect' ? 1 : 4}
+                    spellCheck={false}
+                    placeholder={KIND_LABELS[kind].placeholder}
+                    aria-label="Region coordinates"
+                    className="w-full bg-gray-700 border border-gray-600 text-gray-100 text-xs font-mono rounded-lg p-2"
+                />
+                <p className={`text-xs ${formError ? 'text-red-400' : 'text-gray-400'}`} role={formError ? 'alert' : undefined}>
+                    {formError ?? (kind === 'rect'
+                        ? 'Left, top, width and height, from 0 to 1 of the window.'
+                        : 'One "u, v" vertex per line, from 0 (left/top) to 1 (right/bottom).')}
+                </p>
+                <button onClick={handleAdd} className={buttonClass}>Add Region</button>
+            </fieldset>
+        </section>
+    );
+};
@@ -0,0 +1,41 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AttentionMapSettings } from '../types';
+import { drawAttentionMap, type AttentionMapData } from '../utils/attentionMap';
+
+interface AttentionMapOverlayProps {
+    data: AttentionMapData;
+    settings: AttentionMapSettings;
+}
+
+const viewportSize = () => ({ width: window.innerWidth, height: window.innerHeight, scale: window.devicePixelRatio || 1 });
+
+// Full-window canvas over the page; it never takes pointer events, so the page stays usable underneath.
+export const AttentionMapOverlay: React.FC<AttentionMapOverlayProps> = ({ data, settings }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [size, setSize] = useState(viewportSize);
+
+    useEffect(() => {
+        const handleResize = () => setSize(viewportSize());
+        window.addEventListener('resize', handleResize);
+        return () => window.removeEventListener('resize', handleResize);
+    }, []);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+        canvas.width = Math.round(size.width * size.scale);
+        canvas.height = Math.round(size.height * size.scale);
+        ctx.setTransform(size.scale, 0, 0, size.scale, 0, 0);
+        drawAttentionMap(ctx, size.width, size.height, data, settings);
+    }, [data, settings, size]);
+
+    return (
+        <canvas
+            ref={canvasRef}
+            className="fixed inset-0 pointer-events-none z-[80]"
+            style={{ width: size.width, height: size.height }}
+            aria-hidden="true"
+        />
+    );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AttentionMapMode, AttentionMapSettings } from '../types';
+import { DEFAULT_ATTENTION_MAP_SETTINGS, renderAttentionMapPng, selectAttentionData, sessionLogDuration } from '../utils/attentionMap';
+import { downloadBlob } from '../utils/download';
+import type { SessionLogger } from '../utils/sessionLogger';
+import { AttentionMapOverlay } from './AttentionMapOverlay';
+
+interface AttentionMapPanelProps {
+    logger: SessionLogger;
+}
+
+// The log is re-read on a timer rather than per sample, so a live overlay redraws about once a second.
+const LOG_REFRESH_MS = 1000;
+const WINDOW_STEP_MS = 100;
+
+const MODE_LABELS: Record<AttentionMapMode, string> = {
+    heatmap: 'Heatmap',
+    scanpath: 'Scanpath',
+};
+
+const SliderRow: React.FC<{ label: string; value: number; min: number; max: number; step: number; display: string; disabled?: boolean; onChange: (value: number) => void }> = ({ label, value, min, max, step, display, disabled, onChange }) => (
+    <label className="flex items-center gap-3 text-xs text-gray-400">
+        <span className="w-28 shrink-0">{label}</span>
+        <input type="range" min={min} max={max} step={step} value={value} disabled={disabled} onChange={(e) => onChange(Number(e.target.value))} className="flex-grow accent-cyan-500" />
+        <span className="w-16 text-right font-mono">{display}</span>
+    </label>
+);
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Draws the session log as a heatmap or scanpath over the whole page. It reads the log kept by
+ * the Session Log panel, so a session has to be logged first; a running log updates live.
+ */
+export const AttentionMapPanel: React.FC<AttentionMapPanelProps> = ({ logger }) => {
+    const [settings, setSettings] = useState<AttentionMapSettings>(DEFAULT_ATTENTION_MAP_SETTINGS);
+    const [visible, setVisible] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+    // The log is mutated in place, so this key tells when it has grown or been replaced.
+    const [logKey, setLogKey] = useState('');
+
+    useEffect(() => {
+        const refresh = () => setLogKey(`${logger.getLog()?.startedAt}:${logger.sampleCount}:${logger.eventCount}`);
+        refresh();
+        const interval = window.setInterval(refresh, LOG_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [logger]);
+
+    const log = logger.getLog();
+    const duration = useMemo(() => log ? sessionLogDuration(log) : 0, [log, logKey]);
+    const windowEnd = settings.windowEnd ?? duration;
+    const data = useMemo(
+        () => log && visible ? selectAttentionData(log, settings.windowStart, settings.windowEnd) : null,
+        [log, logKey, visible, settings.windowStart, settings.windowEnd],
+    );
+
+    const update = (patch: Partial<AttentionMapSettings>) => setSettings(current => ({ ...current, ...patch }));
+
+    const setWindowStart = (start: number) => update({ windowStart: Math.min(start, windowEnd) });
+    // Dragging the end to the last step makes it follow a log that is still growing.
+    const setWindowEnd = (end: number) => update({
+        windowStart: Math.min(settings.windowStart, end),
+        windowEnd: end > duration - WINDOW_STEP_MS ? null : end,
+    });
+
+    const exportPng = async () => {
+        if (!log) return;
+        try {
+            const blob = await renderAttentionMapPng(selectAttentionData(log, settings.windowStart, settings.windowEnd), settings);
+            downloadBlob(blob, `attention-${settings.mode}-${new Date(log.startedAt).toISOString().replace(/[:.]/g, '-')}.png`);
+            setExportError(null);
+        } catch (e) {
+            console.error("Failed to export the attention map:", e);
+            setExportError(e instanceof Error ? e.message : 'Export failed.');
+        }
+    };
+
+    const hasLog = !!log && log.samples.length > 0;
+    const buttonClass = 'py-2 px-4 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            {visible && data && <AttentionMapOverlay data={data} settings={settings} />}
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Attention Map</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500 focus:ring-offset-gray-800"
+                        checked={visible}
+                        onChange={(e) => setVisible(e.target.checked)}
+                        disabled={!hasLog}
+                    />
+                    Show
+                </label>
+            </div>
+            <p className="text-xs text-gray-400">
+                Shows where gaze went during the logged session: a heatmap of gaze samples, or the scanpath of numbered
+                fixations joined by saccades. Start logging in the Session Log panel to collect data.
+            </p>
+
+            <div className="flex rounded-lg overflow-hidden border border-gray-600" role="radiogroup" aria-label="Attention map mode">
+                {(Object.keys(MODE_LABELS) as AttentionMapMode[]).map(mode => (
+                    <button
+                        key={mode}
+                        role="radio"
+                        aria-checked={settings.mode === mode}
+                        onClick={() => update({ mode })}
+                        className={`flex-1 py-2 text-sm font-semibold transition-colors duration-200 ${
+                            settings.mode === mode ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        }`}
+                    >
+                        {MODE_LABELS[mode]}
+                    </button>
+                ))}
+            </div>
+
+            <SliderRow
+                label="Radius"
+                value={settings.radius}
+                min={10}
+                max={120}
+                step={5}
+                display={`${settings.radius}px`}
+                disabled={settings.mode !== 'heatmap'}
+                onChange={(radius) => update({ radius })}
+            />
+            <SliderRow
+                label="Opacity"
+                value={Math.round(settings.opacity * 100)}
+                min={10}
+                max={100}
+                step={5}
+                display={`${Math.round(settings.opacity * 100)}%`}
+                onChange={(opacity) => update({ opacity: opacity / 100 })}
+            />
+            <SliderRow
+                label="From"
+                value={Math.min(settings.windowStart, duration)}
+                min={0}
+                max={duration}
+                step={WINDOW_STEP_MS}
+                display={formatSeconds(Math.min(settings.windowStart, duration))}
+                disabled={!hasLog}
+                onChange={setWindowStart}
+            />
+            <SliderRow
+                label="To"
+                value={windowEnd}
+                min={0}
+                max={duration}
+                step={WINDOW_STEP_MS}
+                display={settings.windowEnd === null ? 'end' : formatSeconds(windowEnd)}
+                disabled={!hasLog}
+                onChange={setWindowEnd}
+            />
+
+            <div className="flex gap-3">
+                <button
+                    onClick={() => update({ windowStart: 0, windowEnd: null })}
+                    disabled={settings.windowStart === 0 && settings.windowEnd === null}
+                    className={buttonClass}
+                >
+                    Whole Session
+                </button>
+                <button onClick={exportPng} disabled={!hasLog} className={buttonClass}>Export PNG</button>
+            </div>
+            {exportError && <p className="text-xs text-red-400" role="alert">{exportError}</p>}
+        </section>
+    );
+};
@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { loadPinnedBlendshapes, savePinnedBlendshapes } from '../utils/blendshapes';
+import { useGaze } from './GazeProvider';
+
+interface BlendShapesDisplayProps {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+}
+
+type SortOrder = 'name' | 'activation';
+
+/**
+ * Live bars for the landmarker's expression scores. Pinned categories stay at the top and
+ * are remembered across reloads.
+ */
+export const BlendShapesDisplay: React.FC<BlendShapesDisplayProps> = ({ enabled, onEnabledChange }) => {
+    // While disabled the selector stays null, so gaze updates don't re-render the panel.
+    const scores = useGaze(point => enabled ? point?.blendshapes ?? null : null);
+    const [filter, setFilter] = useState('');
+    const [sortOrder, setSortOrder] = useState<SortOrder>('name');
+    const [pinned, setPinned] = useState<string[]>(loadPinnedBlendshapes);
+
+    const togglePin = (name: string) => {
+        const next = pinned.includes(name) ? pinned.filter(n => n !== name) : [...pinned, name];
+        setPinned(next);
+        savePinnedBlendshapes(next);
+    };
+
+    const rows = useMemo(() => {
+        if (!scores) return [];
+        const query = filter.trim().toLowerCase();
+        const entries = Object.keys(scores)
+            .filter(name => !query || name.toLowerCase().includes(query))
+            .map((name): [string, number] => [name, scores[name]]);
+        entries.sort(([nameA, scoreA], [nameB, scoreB]) => {
+            const pinDiff = Number(pinned.includes(nameB)) - Number(pinned.includes(nameA));
+            if (pinDiff !== 0) return pinDiff;
+            return sortOrder === 'activation' ? scoreB - scoreA : nameA.localeCompare(nameB);
+        });
+        return entries;
+    }, [scores, filter, sortOrder, pinned]);
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Blendshapes</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => onEnabledChange(e.target.checked)}
+                        className="accent-cyan-500"
+                    />
+                    Enabled
+                </label>
+            </div>
+
+            {enabled && (
+                <>
+                    <div className="flex gap-3">
+                        <input
+                            type="search"
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value)}
+                            placeholder="Filter categories"
+                            className="flex-grow bg-gray-700 text-white text-sm rounded px-3 py-2 placeholder-gray-400"
+                        />
+                        <select
+                            value={sortOrder}
+                            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                            className="bg-gray-700 text-white text-sm rounded px-2 py-2"
+                            aria-label="Sort order"
+                        >
+                            <option value="name">By name</option>
+                            <option value="activation">By activation</option>
+                        </select>
+                    </div>
+
+                    {!scores ? (
+                        <p className="text-sm text-gray-400">Waiting for a face…</p>
+                    ) : (
+                        <ul className="space-y-1 max-h-96 overflow-y-auto pr-1">
+                            {rows.map(([name, score]) => {
+                                const isPinned = pinned.includes(name);
+                                return (
+                                    <li key={name} className="flex items-center gap-2 text-xs">
+                                        <button
+                                            onClick={() => togglePin(name)}
+                                            className={isPinned ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}
+                                            aria-label={isPinned ? `Unpin ${name}` : `Pin ${name}`}
+                                            aria-pressed={isPinned}
+                                        >
+                                            ★
+                                        </button>
+                                        <span className="w-36 truncate font-mono text-gray-300" title={name}>{name}</span>
+                                        <div className="flex-grow h-2 bg-gray-700 rounded">
+                                            <div className="h-2 bg-cyan-500 rounded" style={{ width: `${Math.round(score * 100)}%` }}></div>
+                                        </div>
+                                        <span className="w-10 text-right font-mono text-gray-400">{score.toFixed(2)}</span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </>
+            )}
+        </section>
+    );
+};
@@ -1,5 +1,8 @@
 import React from 'react';
-import type { CalibrationStep } from '../types';
+import type { CalibrationStep, CalibrationTarget, CalibrationValidation, NormalizedGazePoint, PursuitSettings } from '../types';
+import { VALIDATION_ERROR_THRESHOLD_DEG, VALIDATION_TARGETS } from '../utils/calibrationValidation';
+import { HEAD_POSITIONS } from '../utils/calibrationPatterns';
+import { pursuitPosition } from '../utils/smoothPursuit';
 
 interface CalibrationDisplayProps {
     step: CalibrationStep;
@@ -7,122 +10,100 @@ interface CalibrationDisplayProps {
     onStart: () => void;
     onReset: () => void;
     onFinish: () => void;
+    cvError?: number | null; // Cross-validated error of the trained model, in normalized screen units
+    target?: CalibrationTarget | null; // Current target while awaiting or collecting
+    targetIndex?: number;
+    targetCount?: number;
+    // Set in smooth-pursuit mode. Progress (0 to 1) is timed by the frames the samples are paired on.
+    pursuit?: { settings: PursuitSettings; margin: number; progress: number } | null;
+    onValidate?: () => void; // Offered once calibration is done, when there is a model to validate
+    validationIndex?: number; // Index into VALIDATION_TARGETS during validation
+    validation?: CalibrationValidation | null;
 }
 
-const STEP_CONFIG: Record<CalibrationStep, { title: string; instruction: string; markerPosition: string }> = {
+// Titles and instructions per phase; target-specific text is filled in from the target's label.
+const STEP_CONFIG: Record<CalibrationStep, { title: string | ((label: string) => string); instruction: string | ((label: string) => string) }> = {
     idle: {
         title: 'Ready to Calibrate',
-        instruction: 'Look directly at the marker in the center of your screen, then press start. Keep your head relatively still during the process.',
-        markerPosition: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
+        instruction: 'Follow the marker as it moves around your screen. Look at the marker in the center, then press start. Keep your head relatively still during the process.',
     },
-    collecting_center: {
-        title: 'Calibrating Center...',
-        instruction: 'Please continue looking at the central marker.',
-        markerPosition: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2',
-    },
-    awaiting_top_center: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the TOP-CENTER.',
-        markerPosition: 'top-4 left-1/2 -translate-x-1/2',
-    },
-    collecting_top_center: {
-        title: 'Calibrating Top-Center...',
-        instruction: 'Keep looking at the marker.',
-        markerPosition: 'top-4 left-1/2 -translate-x-1/2',
-    },
-    awaiting_top_right: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the TOP-RIGHT corner.',
-        markerPosition: 'top-4 right-4',
-    },
-    collecting_top_right: {
-        title: 'Calibrating Top-Right...',
-        instruction: 'Keep looking at the corner.',
-        markerPosition: 'top-4 right-4',
-    },
-     awaiting_middle_right: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the MIDDLE-RIGHT.',
-        markerPosition: 'top-1/2 right-4 -translate-y-1/2',
-    },
-    collecting_middle_right: {
-        title: 'Calibrating Middle-Right...',
-        instruction: 'Keep looking at the marker.',
-        markerPosition: 'top-1/2 right-4 -translate-y-1/2',
-    },
-    awaiting_bottom_right: {
+    awaiting: {
         title: 'Get Ready...',
-        instruction: 'Now, look at the BOTTOM-RIGHT corner.',
-        markerPosition: 'bottom-4 right-4',
+        instruction: (label) => `Now, look at the ${label.toUpperCase()} marker.`,
     },
-    collecting_bottom_right: {
-        title: 'Calibrating Bottom-Right...',
-        instruction: 'Keep looking at the corner.',
-        markerPosition: 'bottom-4 right-4',
-    },
-    awaiting_bottom_center: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the BOTTOM-CENTER.',
-        markerPosition: 'bottom-4 left-1/2 -translate-x-1/2',
-    },
-    collecting_bottom_center: {
-        title: 'Calibrating Bottom-Center...',
+    collecting: {
+        title: (label) => `Calibrating ${label.replace(/^./, c => c.toUpperCase())}...`,
         instruction: 'Keep looking at the marker.',
-        markerPosition: 'bottom-4 left-1/2 -translate-x-1/2',
     },
-    awaiting_bottom_left: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the BOTTOM-LEFT corner.',
-        markerPosition: 'bottom-4 left-4',
+    pursuit: {
+        title: 'Follow the Marker',
+        instruction: 'Keep your eyes on the marker as it moves. Try to keep your head still.',
     },
-    collecting_bottom_left: {
-        title: 'Calibrating Bottom-Left...',
-        instruction: 'Keep looking at the corner.',
-        markerPosition: 'bottom-4 left-4',
+    done: {
+        title: 'Calibration Complete!',
+        instruction: 'Your gaze is now calibrated. Validate it to measure its accuracy, or finish or recalibrate if needed.',
     },
-     awaiting_middle_left: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the MIDDLE-LEFT.',
-        markerPosition: 'top-1/2 left-4 -translate-y-1/2',
+    validation_awaiting: {
+        title: 'Validating...',
+        instruction: 'Look at the new marker.',
     },
-    collecting_middle_left: {
-        title: 'Calibrating Middle-Left...',
+    validation_collecting: {
+        title: 'Validating...',
         instruction: 'Keep looking at the marker.',
-        markerPosition: 'top-1/2 left-4 -translate-y-1/2',
-    },
-    awaiting_top_left: {
-        title: 'Get Ready...',
-        instruction: 'Now, look at the TOP-LEFT corner.',
-        markerPosition: 'top-4 left-4',
     },
-    collecting_top_left: {
-        title: 'Calibrating Top-Left...',
-        instruction: 'Keep looking at the corner.',
-        markerPosition: 'top-4 left-4',
-    },
-    done: {
-        title: 'Calibration Complete!',
-        instruction: 'Your gaze is now calibrated. You can finish or recalibrate if needed.',
-        markerPosition: 'top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 hidden', // Hide marker when done
+    validation_done: {
+        title: 'Validation Complete',
+        instruction: 'Here is how closely the estimated gaze matched the targets.',
     },
 };
 
-export const CalibrationDisplay: React.FC<CalibrationDisplayProps> = ({ step, progress, onStart, onReset, onFinish }) => {
+const CENTER: NormalizedGazePoint = { u: 0.5, v: 0.5 };
+
+const formatMetric = (px: number, deg: number) => `${Math.round(px)}px / ${deg.toFixed(1)}°`;
+
+export const CalibrationDisplay: React.FC<CalibrationDisplayProps> = ({ step, progress, onStart, onReset, onFinish, cvError, target, targetIndex = 0, targetCount = 0, pursuit, onValidate, validationIndex = 0, validation }) => {
+    const pursuitProgress = step === 'pursuit' && pursuit ? pursuit.progress : 0;
+
     const config = STEP_CONFIG[step];
+    const label = target?.label ?? '';
+    const title = typeof config.title === 'function' ? config.title(label) : config.title;
+    const instruction = typeof config.instruction === 'function' ? config.instruction(label) : config.instruction;
+    const isCollecting = step === 'awaiting' || step === 'collecting';
+    const isValidating = step === 'validation_awaiting' || step === 'validation_collecting';
+    const barProgress = step === 'pursuit' ? pursuitProgress : progress;
+
+    let markerPoint: NormalizedGazePoint | null = null;
+    if (step === 'idle') markerPoint = CENTER;
+    else if (isCollecting) markerPoint = target?.position ?? null;
+    else if (step === 'pursuit' && pursuit) markerPoint = pursuitPosition(pursuit.settings.path, pursuitProgress, pursuit.margin);
+    else if (isValidating) markerPoint = VALIDATION_TARGETS[validationIndex];
+
+    const needsRecalibration = step === 'validation_done' && !!validation && validation.accuracyDeg > VALIDATION_ERROR_THRESHOLD_DEG;
 
     return (
         <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center text-center p-4 z-10 rounded-lg backdrop-blur-sm select-none">
             {/* Target Marker */}
-            <div className={`absolute text-cyan-400 text-5xl font-thin opacity-80 transition-all duration-500 ${config.markerPosition}`} aria-hidden="true">
-                +
-            </div>
+            {markerPoint && (
+                <div
+                    className={`absolute text-cyan-400 text-5xl font-thin opacity-80 -translate-x-1/2 -translate-y-1/2 ${step === 'pursuit' ? '' : 'transition-all duration-500'}`}
+                    style={{ left: `${markerPoint.u * 100}%`, top: `${markerPoint.v * 100}%` }}
+                    aria-hidden="true"
+                >
+                    +
+                </div>
+            )}
 
             <div className="relative z-20">
                 <h3 className={`text-xl font-semibold text-white mb-2 ${step === 'done' ? 'text-green-400' : ''}`}>
-                    {config.title}
+                    {title}
+                    {isCollecting && targetCount > 1 && ` (${targetIndex + 1}/${targetCount})`}
+                    {isValidating && ` (${validationIndex + 1}/${VALIDATION_TARGETS.length})`}
                 </h3>
+                {isCollecting && target?.headPosition && (
+                    <p className="text-amber-300 font-semibold mb-2">{HEAD_POSITIONS[target.headPosition].instruction}</p>
+                )}
                 <p className="text-gray-300 mb-6 max-w-sm">
-                   {config.instruction}
+                   {instruction}
                 </p>
 
                 {step === 'idle' && (
@@ -131,25 +112,76 @@ export const CalibrationDisplay: React.FC<CalibrationDisplayProps> = ({ step, pr
                     </button>
                 )}
 
-                {step.startsWith('collecting_') && (
-                    <div role="progressbar" aria-valuenow={progress * 100} aria-valuemin={0} aria-valuemax={100} className="w-64 bg-gray-700 rounded-full h-2.5">
-                        <div className="bg-cyan-500 h-2.5 rounded-full" style={{ width: `${progress * 100}%` }}></div>
+                {(step === 'collecting' || step === 'validation_collecting' || step === 'pursuit') && (
+                    <div role="progressbar" aria-valuenow={barProgress * 100} aria-valuemin={0} aria-valuemax={100} className="w-64 bg-gray-700 rounded-full h-2.5">
+                        <div className="bg-cyan-500 h-2.5 rounded-full" style={{ width: `${barProgress * 100}%` }}></div>
                     </div>
                 )}
                 
-                {step.startsWith('awaiting_') && (
+                {(step === 'awaiting' || step === 'validation_awaiting') && (
                     <div className="flex items-center justify-center space-x-2 text-gray-400">
                         <div className="w-4 h-4 border-2 border-dashed rounded-full animate-spin border-gray-400"></div>
                         <span>Preparing...</span>
                     </div>
                 )}
 
-                {step === 'done' && (
+                {step === 'done' && cvError != null && (
+                    <p className="text-sm text-gray-400 mb-4">
+                        Estimated error: {(cvError * 100).toFixed(1)}% of screen size
+                    </p>
+                )}
+
+                {step === 'validation_done' && validation && (
+                    <div className="mb-4 space-y-3">
+                        <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-left">
+                            <dt className="text-gray-400">Accuracy</dt>
+                            <dd className="font-mono text-white">{formatMetric(validation.accuracyPx, validation.accuracyDeg)}</dd>
+                            <dt className="text-gray-400">Precision (RMS)</dt>
+                            <dd className="font-mono text-white">{formatMetric(validation.precisionPx, validation.precisionDeg)}</dd>
+                        </dl>
+                        <table className="text-xs font-mono text-gray-400 mx-auto">
+                            <thead>
+                                <tr className="text-gray-500">
+                                    <th className="px-2 text-left font-normal">Target</th>
+                                    <th className="px-2 text-right font-normal">Accuracy</th>
+                                    <th className="px-2 text-right font-normal">Precision</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {validation.points.map((point, i) => (
+                                    <tr key={i}>
+                                        <td className="px-2 text-left">({point.target.u.toFixed(2)}, {point.target.v.toFixed(2)})</td>
+                                        <td className="px-2 text-right">{formatMetric(point.accuracyPx, point.accuracyDeg)}</td>
+                                        <td className="px-2 text-right">{formatMetric(point.precisionPx, point.precisionDeg)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {needsRecalibration && (
+                            <p className="text-sm text-amber-300" role="alert">
+                                Accuracy is worse than {VALIDATION_ERROR_THRESHOLD_DEG}°. Recalibrating is recommended.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {(step === 'done' || step === 'validation_done') && (
                     <div className="flex gap-4 justify-center">
-                        <button onClick={onReset} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-6 rounded-lg transition-colors">
+                        <button
+                            onClick={onReset}
+                            className={`${needsRecalibration ? 'bg-cyan-600 hover:bg-cyan-700' : 'bg-gray-600 hover:bg-gray-700'} text-white font-bold py-2 px-6 rounded-lg transition-colors`}
+                        >
                             Recalibrate
                         </button>
-                         <button onClick={onFinish} className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-6 rounded-lg transition-colors">
+                        {step === 'done' && onValidate && (
+                            <button onClick={onValidate} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-6 rounded-lg transition-colors">
+                                Validate
+                            </button>
+                        )}
+                         <button
+                            onClick={onFinish}
+                            className={`${needsRecalibration ? 'bg-gray-600 hover:bg-gray-700' : 'bg-cyan-600 hover:bg-cyan-700'} text-white font-bold py-2 px-6 rounded-lg transition-colors`}
+                        >
                             Finish
                         </button>
                     </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { GazeFeatureSet, GazeMapperKind } from '../types';
+import { FEATURE_SET_LABELS, FEATURE_SET_LAYOUTS, usesHeadPose } from '../utils/calibrationModel';
+import { GAZE_MAPPER_LABELS } from '../utils/gazeMappers';
+
+interface CalibrationModelSettingsProps {
+    featureSet: GazeFeatureSet;
+    onFeatureSetChange: (featureSet: GazeFeatureSet) => void;
+    mapperKind: GazeMapperKind;
+    onMapperKindChange: (kind: GazeMapperKind) => void;
+    benchmark: Record<GazeMapperKind, number | null> | null; // Cross-validated error per mapper
+    learnedHeadCompensation?: boolean; // The active calibration relies on the model to handle head movement
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2';
+
+const formatError = (error: number | null) => error === null ? 'n/a' : `${(error * 100).toFixed(1)}%`;
+
+export const CalibrationModelSettings: React.FC<CalibrationModelSettingsProps> = ({ featureSet, onFeatureSetChange, mapperKind, onMapperKindChange, benchmark, learnedHeadCompensation = false }) => {
+    const ignoresHeadPose = mapperKind !== 'ridge' || !usesHeadPose(FEATURE_SET_LAYOUTS[featureSet]);
+    return (
+        <div className="pt-4 mt-4 border-t border-gray-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="mapperKindSelect" className="text-sm font-medium text-gray-300">
+                    Gaze Mapping
+                    <p className="text-xs font-normal text-gray-400">Refits the active profile from its calibration points.</p>
+                </label>
+                <select
+                    id="mapperKindSelect"
+                    value={mapperKind}
+                    onChange={(e) => onMapperKindChange(e.target.value as GazeMapperKind)}
+                    className={selectClass}
+                >
+                    {(Object.keys(GAZE_MAPPER_LABELS) as GazeMapperKind[]).map(kind => (
+                        <option key={kind} value={kind}>{GAZE_MAPPER_LABELS[kind]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="featureSetSelect" className="text-sm font-medium text-gray-300">
+                    Regression Features
+                    <p className="text-xs font-normal text-gray-400">Used by ridge regression.</p>
+                </label>
+                <select
+                    id="featureSetSelect"
+                    value={featureSet}
+                    onChange={(e) => onFeatureSetChange(e.target.value as GazeFeatureSet)}
+                    disabled={mapperKind !== 'ridge'}
+                    className={`${selectClass} disabled:opacity-50`}
+                >
+                    {(Object.keys(FEATURE_SET_LABELS) as GazeFeatureSet[]).map(set => (
+                        <option key={set} value={set}>{FEATURE_SET_LABELS[set]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {learnedHeadCompensation && ignoresHeadPose && (
+                <p className="text-xs text-amber-300" role="alert">
+                    This calibration learns head compensation, but only ridge regression with head-pose features uses it.
+                </p>
+            )}
+
+            {benchmark && (
+                <table className="w-full text-xs text-gray-400">
+                    <caption className="text-left mb-1">Leave-one-point-out error (% of screen)</caption>
+                    <tbody>
+                        {(Object.keys(benchmark) as GazeMapperKind[]).map(kind => (
+                            <tr key={kind} className={kind === mapperKind ? 'text-cyan-300' : ''}>
+                                <td className="py-0.5">{GAZE_MAPPER_LABELS[kind]}</td>
+                                <td className="py-0.5 text-right font-mono">{formatError(benchmark[kind])}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import type { CalibrationMode, CalibrationPatternPreset, CalibrationPattern, HeadCompensation, HeadPosition, PursuitPath, PursuitSettings } from '../types';
+import { CALIBRATION_PATTERN_PRESETS, formatCustomPoints, getPatternPoints, HEAD_POSITIONS, MAX_CALIBRATION_MARGIN, parseCustomPoints } from '../utils/calibrationPatterns';
+import { PURSUIT_PATH_LABELS } from '../utils/smoothPursuit';
+
+interface CalibrationPatternSettingsProps {
+    settings: CalibrationPattern;
+    onChange: (settings: CalibrationPattern) => void;
+}
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2';
+
+const MODE_LABELS: Record<CalibrationMode, string> = {
+    points: 'Fixed points',
+    pursuit: 'Smooth pursuit',
+};
+
+const HEAD_COMPENSATION_LABELS: Record<HeadCompensation, string> = {
+    fixed: 'Fixed corrections',
+    learned: 'Learned from calibration',
+};
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    display: string;
+    onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, display, onChange }) => (
+    <label className="flex items-center gap-3 text-xs text-gray-400">
+        <span className="w-28 shrink-0">{label}</span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="flex-grow accent-cyan-500"
+        />
+        <span className="w-16 text-right font-mono">{display}</span>
+    </label>
+);
+
+export const CalibrationPatternSettings: React.FC<CalibrationPatternSettingsProps> = ({ settings, onChange }) => {
+    const [customText, setCustomText] = useState(() => formatCustomPoints(settings.customPoints));
+    const [customError, setCustomError] = useState<string | null>(null);
+
+    const update = (patch: Partial<CalibrationPattern>) => onChange({ ...settings, ...patch });
+    const updatePursuit = (patch: Partial<PursuitSettings>) => update({ pursuit: { ...settings.pursuit, ...patch } });
+
+    const handlePresetChange = (preset: CalibrationPattern['preset']) => {
+        if (preset === 'custom' && settings.customPoints.length === 0) {
+            // Start from the current preset so there is something to edit.
+            const points = getPatternPoints(settings);
+            setCustomText(formatCustomPoints(points));
+            update({ preset, customPoints: points });
+            return;
+        }
+        update({ preset });
+    };
+
+    // Positions keep their canonical order, and at least one always stays selected.
+    const toggleHeadPosition = (position: HeadPosition, checked: boolean) => {
+        const selected = (Object.keys(HEAD_POSITIONS) as HeadPosition[])
+            .filter(p => p === position ? checked : settings.headPositions.includes(p));
+        if (selected.length > 0) update({ headPositions: selected });
+    };
+
+    const handleCustomTextChange = (text: string) => {
+        setCustomText(text);
+        try {
+            update({ customPoints: parseCustomPoints(text) });
+            setCustomError(null);
+        } catch (e) {
+            setCustomError(e instanceof Error ? e.message : 'Invalid points.');
+        }
+    };
+
+    return (
+        <div className="pt-4 mt-4 border-t border-gray-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="calibrationModeSelect" className="text-sm font-medium text-gray-300">
+                    Calibration Mode
+                    <p className="text-xs font-normal text-gray-400">Used the next time you calibrate.</p>
+                </label>
+                <select
+                    id="calibrationModeSelect"
+                    value={settings.mode}
+                    onChange={(e) => update({ mode: e.target.value as CalibrationMode })}
+                    className={selectClass}
+                >
+                    {(Object.keys(MODE_LABELS) as CalibrationMode[]).map(mode => (
+                        <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {settings.mode === 'pursuit' ? (
+                <>
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="pursuitPathSelect" className="text-sm font-medium text-gray-300">Target Path</label>
+                        <select
+                            id="pursuitPathSelect"
+                            value={settings.pursuit.path}
+                            onChange={(e) => updatePursuit({ path: e.target.value as PursuitPath })}
+                            className={selectClass}
+                        >
+                            {(Object.keys(PURSUIT_PATH_LABELS) as PursuitPath[]).map(path => (
+                                <option key={path} value={path}>{PURSUIT_PATH_LABELS[path]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <Slider
+                        label="Duration"
+                        value={settings.pursuit.durationMs}
+                        min={10000}
+                        max={40000}
+                        step={1000}
+                        display={`${settings.pursuit.durationMs / 1000}s`}
+                        onChange={(durationMs) => updatePursuit({ durationMs })}
+                    />
+                    <Slider
+                        label="Gaze latency"
+                        value={settings.pursuit.latencyMs}
+                        min={0}
+                        max={300}
+                        step={10}
+                        display={`${settings.pursuit.latencyMs}ms`}
+                        onChange={(latencyMs) => updatePursuit({ latencyMs })}
+                    />
+                </>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="calibrationPatternSelect" className="text-sm font-medium text-gray-300">Calibration Pattern</label>
+                        <select
+                            id="calibrationPatternSelect"
+                            value={settings.preset}
+                            onChange={(e) => handlePresetChange(e.target.value as CalibrationPattern['preset'])}
+                            className={selectClass}
+                        >
+                            {(Object.keys(CALIBRATION_PATTERN_PRESETS) as CalibrationPatternPreset[]).map(preset => (
+                                <option key={preset} value={preset}>{CALIBRATION_PATTERN_PRESETS[preset].label}</option>
+                            ))}
+                            <option value="custom">Custom</option>
+                        </select>
+                    </div>
+
+                    {settings.preset === 'custom' && (
+                        <div className="space-y-1">
+                            <textarea
+                                value={customText}
+                                onChange={(e) => handleCustomTextChange(e.target.value)}
+                                rows={5}
+                                spellCheck={false}
+                                className="w-full bg-gray-700 border border-gray-600 text-gray-100 text-xs font-mono rounded-lg p-2"
+                                aria-label="Custom calibration points"
+                                placeholder={'0.5, 0.5\n0, 0\n1, 1'}
+                            />
+                            <p className={`text-xs ${customError ? 'text-red-400' : 'text-gray-400'}`} role={customError ? 'alert' : undefined}>
+                                {customError ?? 'One "u, v" pair per line, from 0 (left/top) to 1 (right/bottom).'}
+                            </p>
+                        </div>
+                    )}
+
+                    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={settings.randomOrder}
+                            onChange={(e) => update({ randomOrder: e.target.checked })}
+                            className="w-4 h-4 accent-cyan-500"
+                        />
+                        Randomize point order
+                    </label>
+
+                    <fieldset className="space-y-1">
+                        <legend className="text-xs text-gray-400">Head positions (the pattern is repeated from each one)</legend>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1">
+                            {(Object.keys(HEAD_POSITIONS) as HeadPosition[]).map(position => (
+                                <label key={position} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={settings.headPositions.includes(position)}
+                                        onChange={(e) => toggleHeadPosition(position, e.target.checked)}
+                                        className="w-4 h-4 accent-cyan-500"
+                                    />
+                                    {HEAD_POSITIONS[position].label}
+                                </label>
+                            ))}
+                        </div>
+                    </fieldset>
+                </>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="headCompensationSelect" className="text-sm font-medium text-gray-300">
+                    Head Compensation
+                    <p className="text-xs font-normal text-gray-400">Learned compensation fits a head-pose model; calibrate from several head positions.</p>
+                </label>
+                <select
+                    id="headCompensationSelect"
+                    value={settings.headCompensation}
+                    onChange={(e) => update({ headCompensation: e.target.value as HeadCompensation })}
+                    className={selectClass}
+                >
+                    {(Object.keys(HEAD_COMPENSATION_LABELS) as HeadCompensation[]).map(mode => (
+                        <option key={mode} value={mode}>{HEAD_COMPENSATION_LABELS[mode]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <Slider
+                label="Edge margin"
+                value={settings.margin}
+                min={0}
+                max={MAX_CALIBRATION_MARGIN}
+                step={0.01}
+                display={`${Math.round(settings.margin * 100)}%`}
+                onChange={(margin) => update({ margin })}
+            />
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useRef, useState } from 'react';
+import type { CalibrationProfile } from '../types';
+import { parseCalibrationFile } from '../utils/calibrationStorage';
+
+interface CalibrationProfilesProps {
+    profiles: CalibrationProfile[];
+    activeProfileName: string;
+    isCalibrated: boolean;
+    onSelect: (name: string) => void;
+    onCreate: (name: string) => void;
+    onDelete: (name: string) => void;
+    onExport: () => void;
+    onImport: (profile: CalibrationProfile) => void;
+}
+
+const buttonClass = 'py-2 px-3 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+export const CalibrationProfiles: React.FC<CalibrationProfilesProps> = ({ profiles, activeProfileName, isCalibrated, onSelect, onCreate, onDelete, onExport, onImport }) => {
+    const [newProfileName, setNewProfileName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const isSaved = profiles.some(p => p.name === activeProfileName);
+
+    const handleCreate = () => {
+        const name = newProfileName.trim();
+        if (!name) return;
+        onCreate(name);
+        setNewProfileName('');
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-importing the same file
+        if (!file) return;
+        try {
+            const profile = parseCalibrationFile(await file.text());
+            setImportError(null);
+            onImport(profile);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : 'Could not import calibration file.');
+        }
+    };
+
+    return (
+        <div className="pt-4 mt-4 border-t border-gray-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="calibrationProfileSelect" className="text-sm font-medium text-gray-300">
+                    Calibration Profile
+                </label>
+                <span className={`text-xs ${isCalibrated ? 'text-green-400' : 'text-gray-500'}`}>
+                    {isCalibrated ? 'Calibrated' : 'Not calibrated'}
+                </span>
+            </div>
+
+            <select
+                id="calibrationProfileSelect"
+                value={activeProfileName}
+                onChange={(e) => onSelect(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2"
+            >
+                {!isSaved && <option value={activeProfileName}>{activeProfileName} (unsaved)</option>}
+                {profiles.map(p => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+            </select>
+
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={newProfileName}
+                    onChange={(e) => setNewProfileName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                    placeholder="New profile name"
+                    className="flex-grow bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2"
+                />
+                <button onClick={handleCreate} disabled={!newProfileName.trim()} className={buttonClass}>
+                    New
+                </button>
+            </div>
+
+            <div className="flex gap-2">
+                <button onClick={onExport} disabled={!isCalibrated} className={`flex-1 ${buttonClass}`}>
+                    Export
+                </button>
+                <button onClick={() => fileInputRef.current?.click()} className={`flex-1 ${buttonClass}`}>
+                    Import
+                </button>
+                <button onClick={() => onDelete(activeProfileName)} disabled={!isSaved} className={`flex-1 ${buttonClass}`}>
+                    Delete
+                </button>
+                <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {importError && (
+                <p className="text-xs text-red-400" role="alert">{importError}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import type { DwellClickSettings } from '../types';
+import { DwellClickTracker, dispatchGazeClick } from '../utils/dwellClick';
+import { useCalibration, useGaze } from './GazeProvider';
+
+interface DwellClickLayerProps {
+    settings: DwellClickSettings;
+}
+
+interface RingState {
+    x: number;
+    y: number;
+    radius: number;
+    progress: number;
+}
+
+const RING_STROKE = 4;
+
+export const DwellClickLayer: React.FC<DwellClickLayerProps> = ({ settings }) => {
+    const gaze = useGaze();
+    const { isCalibrating } = useCalibration();
+    const point = isCalibrating ? null : gaze;
+    const [tracker] = useState(() => new DwellClickTracker(settings));
+    const [ring, setRing] = useState<RingState | null>(null);
+
+    const active = settings.enabled && !settings.paused;
+
+    useEffect(() => {
+        tracker.configure(settings);
+        if (!active) {
+            tracker.reset();
+            setRing(null);
+        }
+    }, [tracker, settings, active]);
+
+    useEffect(() => {
+        if (!active) return;
+        const { target, progress, fired } = tracker.update(point);
+
+        if (fired && point) {
+            dispatchGazeClick(fired, point.x, point.y);
+        }
+
+        if (!target || progress <= 0 || fired) {
+            setRing(null);
+            return;
+        }
+        const rect = target.getBoundingClientRect();
+        setRing({
+            x: rect.left + rect.width / 2,
+            y: rect.top + rect.height / 2,
+            radius: Math.max(16, Math.min(32, Math.min(rect.width, rect.height) / 2)),
+            progress,
+        });
+    }, [tracker, point, active]);
+
+    if (!ring) return null;
+
+    const size = (ring.radius + RING_STROKE) * 2;
+    const circumference = 2 * Math.PI * ring.radius;
+
+    return (
+        <svg
+            className="fixed pointer-events-none z-[110]"
+            style={{ left: ring.x - size / 2, top: ring.y - size / 2 }}
+            width={size}
+            height={size}
+            aria-hidden="true"
+        >
+            <circle cx={size / 2} cy={size / 2} r={ring.radius} fill="none" stroke="rgba(34, 211, 238, 0.25)" strokeWidth={RING_STROKE} />
+            <circle
+                cx={size / 2}
+                cy={size / 2}
+                r={ring.radius}
+                fill="none"
+                stroke="rgb(34, 211, 238)"
+                strokeWidth={RING_STROKE}
+                strokeLinecap="round"
+                strokeDasharray={circumference}
+                strokeDashoffset={circumference * (1 - ring.progress)}
+                transform={`rotate(-90 ${size / 2} ${size / 2})`}
+                style={{ transition: 'stroke-dashoffset 100ms linear' }}
+            />
+        </svg>
+    );
+};
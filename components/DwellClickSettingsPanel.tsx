@@ -0,0 +1,55 @@
+import React from 'react';
+import type { DwellClickSettings } from '../types';
+
+interface DwellClickSettingsPanelProps {
+    settings: DwellClickSettings;
+    onChange: (settings: DwellClickSettings) => void;
+}
+
+const SliderRow: React.FC<{ label: string; value: number; min: number; max: number; step: number; unit: string; onChange: (value: number) => void }> = ({ label, value, min, max, step, unit, onChange }) => (
+    <label className="flex items-center gap-3 text-xs text-gray-400">
+        <span className="w-28 shrink-0">{label}</span>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-grow accent-cyan-500" />
+        <span className="w-16 text-right font-mono">{value}{unit}</span>
+    </label>
+);
+
+export const DwellClickSettingsPanel: React.FC<DwellClickSettingsPanelProps> = ({ settings, onChange }) => {
+    const update = (patch: Partial<DwellClickSettings>) => onChange({ ...settings, ...patch });
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Dwell Click</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500 focus:ring-offset-gray-800"
+                        checked={settings.enabled}
+                        onChange={(e) => update({ enabled: e.target.checked })}
+                    />
+                    Enabled
+                </label>
+            </div>
+            <p className="text-xs text-gray-400">
+                Rest your gaze on a highlighted control to click it. Controls opt in with the <code>data-gaze-target</code> attribute.
+            </p>
+
+            <SliderRow label="Dwell time" value={settings.dwellTime} min={300} max={3000} step={100} unit="ms" onChange={(dwellTime) => update({ dwellTime })} />
+            <SliderRow label="Cooldown" value={settings.cooldown} min={0} max={3000} step={100} unit="ms" onChange={(cooldown) => update({ cooldown })} />
+            <SliderRow label="Hysteresis" value={settings.hysteresis} min={0} max={100} step={4} unit="px" onChange={(hysteresis) => update({ hysteresis })} />
+            <SliderRow label="Grace period" value={settings.gracePeriod} min={0} max={1000} step={50} unit="ms" onChange={(gracePeriod) => update({ gracePeriod })} />
+
+            <button
+                onClick={() => update({ paused: !settings.paused })}
+                disabled={!settings.enabled}
+                data-gaze-target=""
+                className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed ${
+                    settings.paused ? 'bg-amber-600 hover:bg-amber-700' : 'bg-gray-600 hover:bg-gray-700'
+                }`}
+            >
+                {settings.paused ? 'RESUME DWELL CLICK' : 'PAUSE DWELL CLICK'}
+            </button>
+        </section>
+    );
+};
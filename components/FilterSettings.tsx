@@ -0,0 +1,115 @@
+import React from 'react';
+import type { GazeFilterKind, GazeFilterSettings, GazeFilterTarget } from '../types';
+
+interface FilterSettingsProps {
+    settings: GazeFilterSettings;
+    onChange: (settings: GazeFilterSettings) => void;
+}
+
+const FILTER_LABELS: Record<GazeFilterKind, string> = {
+    none: 'None',
+    ema: 'Exponential (EMA)',
+    one_euro: 'One Euro',
+    kalman: 'Kalman (constant velocity)',
+};
+
+const TARGET_LABELS: Record<GazeFilterTarget, string> = {
+    vectors: 'Gaze vectors',
+    screen: 'Screen point',
+    both: 'Both',
+};
+
+const selectClass = 'bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2';
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    onChange: (value: number) => void;
+    logarithmic?: boolean; // Slide over log10(value) for parameters spanning several orders of magnitude
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, onChange, logarithmic = false }) => {
+    const toSlider = (v: number) => logarithmic ? Math.log10(v) : v;
+    const fromSlider = (v: number) => logarithmic ? Math.pow(10, v) : v;
+    return (
+        <label className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="w-28 shrink-0">{label}</span>
+            <input
+                type="range"
+                min={toSlider(min)}
+                max={toSlider(max)}
+                step={step}
+                value={toSlider(value)}
+                onChange={(e) => onChange(fromSlider(Number(e.target.value)))}
+                className="flex-grow accent-cyan-500"
+            />
+            <span className="w-16 text-right font-mono">{value.toPrecision(3)}</span>
+        </label>
+    );
+};
+
+export const FilterSettings: React.FC<FilterSettingsProps> = ({ settings, onChange }) => {
+    const update = (patch: Partial<GazeFilterSettings>) => onChange({ ...settings, ...patch });
+
+    return (
+        <div className="pt-4 mt-4 border-t border-gray-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="filterKindSelect" className="text-sm font-medium text-gray-300">Smoothing Filter</label>
+                <select
+                    id="filterKindSelect"
+                    value={settings.kind}
+                    onChange={(e) => update({ kind: e.target.value as GazeFilterKind })}
+                    className={selectClass}
+                >
+                    {(Object.keys(FILTER_LABELS) as GazeFilterKind[]).map(kind => (
+                        <option key={kind} value={kind}>{FILTER_LABELS[kind]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {settings.kind !== 'none' && (
+                <div className="flex items-center justify-between gap-4">
+                    <label htmlFor="filterTargetSelect" className="text-sm font-medium text-gray-300">Apply To</label>
+                    <select
+                        id="filterTargetSelect"
+                        value={settings.target}
+                        onChange={(e) => update({ target: e.target.value as GazeFilterTarget })}
+                        className={selectClass}
+                    >
+                        {(Object.keys(TARGET_LABELS) as GazeFilterTarget[]).map(target => (
+                            <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
+            {settings.kind === 'ema' && (
+                <Slider label="Alpha" value={settings.ema.alpha} min={0.01} max={1} step={0.01}
+                    onChange={(alpha) => update({ ema: { alpha } })} />
+            )}
+
+            {settings.kind === 'one_euro' && (
+                <>
+                    <Slider label="Min cutoff (Hz)" value={settings.oneEuro.minCutoff} min={0.01} max={10} step={0.05} logarithmic
+                        onChange={(minCutoff) => update({ oneEuro: { ...settings.oneEuro, minCutoff } })} />
+                    <Slider label="Beta" value={settings.oneEuro.beta} min={0.0001} max={10} step={0.05} logarithmic
+                        onChange={(beta) => update({ oneEuro: { ...settings.oneEuro, beta } })} />
+                    <Slider label="Derivative cutoff" value={settings.oneEuro.dCutoff} min={0.1} max={10} step={0.05} logarithmic
+                        onChange={(dCutoff) => update({ oneEuro: { ...settings.oneEuro, dCutoff } })} />
+                </>
+            )}
+
+            {settings.kind === 'kalman' && (
+                <>
+                    <Slider label="Process noise" value={settings.kalman.processNoise} min={1e-4} max={1e5} step={0.1} logarithmic
+                        onChange={(processNoise) => update({ kalman: { ...settings.kalman, processNoise } })} />
+                    <Slider label="Measurement noise" value={settings.kalman.measurementNoise} min={1e-6} max={100} step={0.1} logarithmic
+                        onChange={(measurementNoise) => update({ kalman: { ...settings.kalman, measurementNoise } })} />
+                </>
+            )}
+        </div>
+    );
+};
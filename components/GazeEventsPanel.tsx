@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { GazeEventAlgorithm, GazeEventThresholds, GazeStreamEvent, GazeThresholdUnit, ScreenGeometry } from '../types';
+import { useGazeEvents } from './GazeProvider';
+
+interface GazeEventsPanelProps {
+    thresholds: GazeEventThresholds;
+    onThresholdsChange: (thresholds: GazeEventThresholds) => void;
+    geometry: ScreenGeometry;
+    onGeometryChange: (geometry: ScreenGeometry) => void;
+}
+
+const MAX_LOGGED_EVENTS = 8;
+
+const inputClass = 'w-24 bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-1.5 text-right';
+const selectClass = 'bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-1.5';
+
+const NumberField: React.FC<{ label: string; value: number; step: number; onChange: (value: number) => void }> = ({ label, value, step, onChange }) => (
+    <label className="flex items-center justify-between gap-3 text-xs text-gray-400">
+        <span>{label}</span>
+        <input
+            type="number"
+            min={0}
+            step={step}
+            value={value}
+            onChange={(e) => {
+                const next = Number(e.target.value);
+                if (Number.isFinite(next) && next > 0) onChange(next);
+            }}
+            className={inputClass}
+        />
+    </label>
+);
+
+const EVENT_COLORS: Record<GazeStreamEvent['type'], string> = {
+    fixationStart: 'text-cyan-300',
+    fixationEnd: 'text-cyan-300',
+    saccade: 'text-amber-300',
+    blink: 'text-fuchsia-300',
+    wink: 'text-fuchsia-300',
+};
+
+const describeEvent = (event: GazeStreamEvent, unit: string) => {
+    if ('eye' in event) {
+        const label = event.type === 'blink' ? 'Blink' : `Wink (${event.eye} eye)`;
+        return `${label} ${Math.round(event.duration)}ms`;
+    }
+    if (event.type === 'saccade') {
+        return `Saccade ${event.amplitude.toFixed(1)}${unit} in ${Math.round(event.duration)}ms`;
+    }
+    const label = event.type === 'fixationStart' ? 'Fixation start' : 'Fixation end';
+    return `${label} @ (${Math.round(event.centroid.x)}, ${Math.round(event.centroid.y)}) ${Math.round(event.duration)}ms, ${event.dispersion.toFixed(2)}${unit}`;
+};
+
+export const GazeEventsPanel: React.FC<GazeEventsPanelProps> = ({ thresholds, onThresholdsChange, geometry, onGeometryChange }) => {
+    const [events, setEvents] = useState<GazeStreamEvent[]>([]);
+
+    useGazeEvents(event => setEvents(prev => [event, ...prev].slice(0, MAX_LOGGED_EVENTS)));
+
+    const update = (patch: Partial<GazeEventThresholds>) => onThresholdsChange({ ...thresholds, ...patch });
+    const unitSuffix = thresholds.unit === 'degrees' ? '°' : 'px';
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <h2 className="text-xl font-bold text-white">Fixations, Saccades &amp; Blinks</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                    Algorithm
+                    <select value={thresholds.algorithm} onChange={(e) => update({ algorithm: e.target.value as GazeEventAlgorithm })} className={selectClass}>
+                        <option value="ivt">I-VT (velocity)</option>
+                        <option value="idt">I-DT (dispersion)</option>
+                    </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-sm text-gray-300">
+                    Units
+                    <select value={thresholds.unit} onChange={(e) => update({ unit: e.target.value as GazeThresholdUnit })} className={selectClass}>
+                        <option value="degrees">Visual degrees</option>
+                        <option value="pixels">Pixels</option>
+                    </select>
+                </label>
+
+                {thresholds.algorithm === 'ivt' ? (
+                    <NumberField label={`Velocity threshold (${unitSuffix}/s)`} value={thresholds.velocityThreshold} step={1}
+                        onChange={(velocityThreshold) => update({ velocityThreshold })} />
+                ) : (
+                    <NumberField label={`Dispersion threshold (${unitSuffix})`} value={thresholds.dispersionThreshold} step={0.1}
+                        onChange={(dispersionThreshold) => update({ dispersionThreshold })} />
+                )}
+                <NumberField label="Min fixation (ms)" value={thresholds.minFixationDuration} step={10}
+                    onChange={(minFixationDuration) => update({ minFixationDuration })} />
+
+                {thresholds.unit === 'degrees' && (
+                    <>
+                        <NumberField label="Viewing distance (cm)" value={geometry.viewingDistanceCm} step={1}
+                            onChange={(viewingDistanceCm) => onGeometryChange({ ...geometry, viewingDistanceCm })} />
+                        <NumberField label="Pixels per cm" value={Number(geometry.pixelsPerCm.toFixed(1))} step={0.1}
+                            onChange={(pixelsPerCm) => onGeometryChange({ ...geometry, pixelsPerCm })} />
+                    </>
+                )}
+            </div>
+
+            <ul className="text-xs font-mono text-gray-400 space-y-1 min-h-[1rem]">
+                {events.length === 0 && <li>No events yet.</li>}
+                {events.map((event, i) => (
+                    <li key={`${event.timestamp}-${event.type}-${i}`} className={EVENT_COLORS[event.type]}>
+                        {describeEvent(event, unitSuffix)}
+                    </li>
+                ))}
+            </ul>
+        </section>
+    );
+};
@@ -1,18 +1,23 @@
 import React from 'react';
-import type { GazePoint } from '../types';
+import { isUsableGazeSample } from '../utils/gazeQuality';
+import { useCalibration, useGaze } from './GazeProvider';
 
-interface GazeFollowerProps {
-    point: GazePoint | null;
-}
+export const GazeFollower: React.FC = () => {
+    const gaze = useGaze();
+    const { isCalibrating } = useCalibration();
+    const point = isCalibrating ? null : gaze;
 
-export const GazeFollower: React.FC<GazeFollowerProps> = ({ point }) => {
     if (!point) {
         return null;
     }
 
     return (
         <div 
-            className="fixed w-10 h-10 rounded-full bg-cyan-400/30 border-2 border-cyan-300 shadow-lg shadow-cyan-500/50 blur-sm pointer-events-none transition-all duration-100 ease-out z-[100]"
+            className={`fixed w-10 h-10 rounded-full blur-sm pointer-events-none transition-all duration-100 ease-out z-[100] border-2 shadow-lg ${
+                !isUsableGazeSample(point)
+                    ? 'bg-amber-400/20 border-amber-300/60 shadow-amber-500/30'
+                    : 'bg-cyan-400/30 border-cyan-300 shadow-cyan-500/50'
+            }`}
             style={{ 
                 left: `${point.x}px`, 
                 top: `${point.y}px`,
@@ -0,0 +1,324 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import type { CalibrationData, CalibrationProfile, GazeEventThresholds, GazePoint, GazeStreamEvent, ScreenGeometry, VideoSourceKind } from '../types';
+import { createFaceLandmarker } from '../utils/faceLandmarker';
+import { BlinkDetector } from '../utils/blinkDetector';
+import { DEFAULT_GAZE_EVENT_THRESHOLDS, DEFAULT_SCREEN_GEOMETRY, FixationDetector } from '../utils/fixationDetector';
+import { GazeStore } from '../utils/gazeStore';
+import { AoiTracker, loadAoiRegions } from '../utils/aoi';
+import {
+    DEFAULT_PROFILE_NAME,
+    deleteCalibrationProfile,
+    listCalibrationProfiles,
+    loadCalibrationProfile,
+    loadLastUsedProfile,
+    saveCalibrationProfile,
+    setLastUsedProfileName,
+} from '../utils/calibrationStorage';
+
+// --- Contexts ---
+// The stream context is created once and never changes, so per-frame consumers subscribe to
+// it instead of re-rendering with the provider. Session state only changes on user actions.
+
+interface GazeStream {
+    store: GazeStore;
+    fixationDetector: FixationDetector;
+    blinkDetector: BlinkDetector;
+    aoiTracker: AoiTracker;
+}
+
+export interface GazeSession {
+    faceLandmarker: FaceLandmarker | null;
+    loading: boolean;
+    error: string | null;
+    // Set by the component that runs the frame loop when a camera or video file starts or stops
+    videoSource: VideoSourceKind | null;
+    setVideoSource: (source: VideoSourceKind | null) => void;
+    // --- Calibration ---
+    calibration: CalibrationData | null;
+    setCalibration: React.Dispatch<React.SetStateAction<CalibrationData | null>>;
+    // Sets the calibration and stores it in the active profile
+    saveCalibration: (calibration: CalibrationData) => void;
+    isCalibrating: boolean;
+    setIsCalibrating: (isCalibrating: boolean) => void;
+    // Incremented by startCalibration; the frame loop begins a new run of targets when it changes
+    calibrationRun: number;
+    startCalibration: () => boolean;
+    // --- Profiles ---
+    calibrationProfile: string;
+    profiles: CalibrationProfile[];
+    selectProfile: (name: string) => void;
+    createProfile: (name: string) => void;
+    deleteProfile: (name: string) => void;
+    importProfile: (profile: CalibrationProfile) => void;
+    highSensitivity: boolean;
+    setHighSensitivity: (value: boolean) => void;
+    blendshapesEnabled: boolean;
+    setBlendshapesEnabled: (enabled: boolean) => void;
+    eventThresholds: GazeEventThresholds;
+    setEventThresholds: (thresholds: GazeEventThresholds) => void;
+    screenGeometry: ScreenGeometry;
+    setScreenGeometry: (geometry: ScreenGeometry) => void;
+    blinkDetector: BlinkDetector;
+    publishGaze: (point: GazePoint | null) => void;
+}
+
+const GazeStreamContext = createContext<GazeStream | null>(null);
+const GazeSessionContext = createContext<GazeSession | null>(null);
+
+/**
+ * Owns the face landmarker, the gaze and event streams and the tracking session state: the video
+ * source, the calibration and its profiles, and the settings shared by the panels.
+ * Components read from it with useGaze, useGazeListener, useGazeEvents, useCalibration, useGazeSession
+ * and, for areas of interest, useAoiTracker and useAoiRef.
+ */
+export const GazeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [stream] = useState<GazeStream>(() => {
+        const aoiTracker = new AoiTracker();
+        aoiTracker.setRegions(loadAoiRegions());
+        return {
+            store: new GazeStore(),
+            fixationDetector: new FixationDetector(),
+            blinkDetector: new BlinkDetector(),
+            aoiTracker,
+        };
+    });
+    const [faceLandmarker, setFaceLandmarker] = useState<FaceLandmarker | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [videoSource, setVideoSource] = useState<VideoSourceKind | null>(null);
+    // Restore the last-used profile so the gaze follower works straight after a reload.
+    const [initialProfile] = useState(loadLastUsedProfile);
+    const [calibration, setCalibration] = useState<CalibrationData | null>(initialProfile?.data ?? null);
+    const [calibrationProfile, setCalibrationProfile] = useState(initialProfile?.name ?? DEFAULT_PROFILE_NAME);
+    const [profiles, setProfiles] = useState<CalibrationProfile[]>(listCalibrationProfiles);
+    const [isCalibrating, setIsCalibrating] = useState(false);
+    const [calibrationRun, setCalibrationRun] = useState(0);
+    const [highSensitivity, setHighSensitivity] = useState(false);
+    const [blendshapesEnabled, setBlendshapesEnabled] = useState(false);
+    const [eventThresholds, setEventThresholds] = useState<GazeEventThresholds>(DEFAULT_GAZE_EVENT_THRESHOLDS);
+    const [screenGeometry, setScreenGeometry] = useState<ScreenGeometry>(DEFAULT_SCREEN_GEOMETRY);
+
+    useEffect(() => {
+        let cancelled = false;
+        let landmarker: FaceLandmarker | null = null;
+        const initializeFaceLandmarker = async () => {
+            try {
+                landmarker = await createFaceLandmarker({ runningMode: "VIDEO" });
+                // Unmounted while the model was loading
+                if (cancelled) {
+                    landmarker.close();
+                    return;
+                }
+                setFaceLandmarker(landmarker);
+            } catch (e) {
+                if (cancelled) return;
+                if (e instanceof Error) {
+                    setError(`Initialization Error: ${e.message}`);
+                } else {
+                    setError("An unknown error occurred during initialization.");
+                }
+                console.error(e);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        initializeFaceLandmarker();
+        return () => {
+            cancelled = true;
+            landmarker?.close();
+        };
+    }, []);
+
+    // Blendshapes cost extra inference time, so they are only computed while something asks for them.
+    useEffect(() => {
+        faceLandmarker?.setOptions({ outputFaceBlendshapes: blendshapesEnabled })
+            .catch(e => console.error("Failed to update blendshape output:", e));
+    }, [faceLandmarker, blendshapesEnabled]);
+
+    useEffect(() => {
+        stream.fixationDetector.configure(eventThresholds, screenGeometry);
+    }, [stream, eventThresholds, screenGeometry]);
+
+    // Areas of interest are measured from the live stream, but not while calibration covers the screen.
+    useEffect(() => stream.fixationDetector.subscribe(event => {
+        if (event.type === 'fixationStart') stream.aoiTracker.addFixation(event);
+    }), [stream]);
+
+    useEffect(() => {
+        stream.aoiTracker.setPaused(isCalibrating);
+    }, [stream, isCalibrating]);
+
+    // Feed every gaze sample to the fixation detector; a lost face ends any open fixation.
+    // Samples held through a blink are kept, so a blink doesn't split a fixation.
+    const publishGaze = useCallback((point: GazePoint | null) => {
+        stream.aoiTracker.addSample(point);
+        stream.store.publish(point);
+        if (point && !point.flags.faceLost) {
+            stream.fixationDetector.addSample(point);
+        } else {
+            stream.fixationDetector.flush();
+        }
+    }, [stream]);
+
+    // --- Calibration Profiles ---
+    const saveCalibration = useCallback((data: CalibrationData) => {
+        setCalibration(data);
+        saveCalibrationProfile(calibrationProfile, data);
+        setProfiles(listCalibrationProfiles());
+    }, [calibrationProfile]);
+
+    const selectProfile = useCallback((name: string) => {
+        const profile = loadCalibrationProfile(name);
+        setCalibrationProfile(name);
+        setCalibration(profile?.data ?? null);
+        if (profile) setLastUsedProfileName(name);
+    }, []);
+
+    // A new profile starts uncalibrated; it is saved once calibration completes.
+    const createProfile = useCallback((name: string) => {
+        setCalibrationProfile(name);
+        setCalibration(loadCalibrationProfile(name)?.data ?? null);
+    }, []);
+
+    const deleteProfile = useCallback((name: string) => {
+        deleteCalibrationProfile(name);
+        setProfiles(listCalibrationProfiles());
+        if (name === calibrationProfile) {
+            setCalibrationProfile(DEFAULT_PROFILE_NAME);
+            setCalibration(loadCalibrationProfile(DEFAULT_PROFILE_NAME)?.data ?? null);
+        }
+    }, [calibrationProfile]);
+
+    const importProfile = useCallback((profile: CalibrationProfile) => {
+        saveCalibrationProfile(profile.name, profile.data);
+        setProfiles(listCalibrationProfiles());
+        setCalibrationProfile(profile.name);
+        setCalibration(profile.data);
+    }, []);
+
+    // A run needs frames to collect samples from. Returns whether it started.
+    const startCalibration = useCallback(() => {
+        if (videoSource === null) return false;
+        setIsCalibrating(true);
+        setCalibrationRun(run => run + 1);
+        return true;
+    }, [videoSource]);
+
+    const session = useMemo<GazeSession>(() => ({
+        faceLandmarker,
+        loading,
+        error,
+        videoSource,
+        setVideoSource,
+        calibration,
+        setCalibration,
+        saveCalibration,
+        isCalibrating,
+        setIsCalibrating,
+        calibrationRun,
+        startCalibration,
+        calibrationProfile,
+        profiles,
+        selectProfile,
+        createProfile,
+        deleteProfile,
+        importProfile,
+        highSensitivity,
+        setHighSensitivity,
+        blendshapesEnabled,
+        setBlendshapesEnabled,
+        eventThresholds,
+        setEventThresholds,
+        screenGeometry,
+        setScreenGeometry,
+        blinkDetector: stream.blinkDetector,
+        publishGaze,
+    }), [faceLandmarker, loading, error, videoSource, calibration, saveCalibration, isCalibrating, calibrationRun, startCalibration, calibrationProfile, profiles, selectProfile, createProfile, deleteProfile, importProfile, highSensitivity, blendshapesEnabled, eventThresholds, screenGeometry, stream, publishGaze]);
+
+    return (
+        <GazeStreamContext.Provider value={stream}>
+            <GazeSessionContext.Provider value={session}>
+                {children}
+            </GazeSessionContext.Provider>
+        </GazeStreamContext.Provider>
+    );
+};
+
+// --- Hooks ---
+
+const useGazeStream = () => {
+    const stream = useContext(GazeStreamContext);
+    if (!stream) throw new Error('Gaze hooks must be used inside a GazeProvider.');
+    return stream;
+};
+
+export const useGazeSession = () => {
+    const session = useContext(GazeSessionContext);
+    if (!session) throw new Error('Gaze hooks must be used inside a GazeProvider.');
+    return session;
+};
+
+const latestPoint = (point: GazePoint | null) => point;
+
+/**
+ * The latest gaze point. Pass a selector to re-render only when the selected value changes,
+ * e.g. `useGaze(p => p !== null)`; it should return a primitive or a stable object.
+ */
+export const useGaze = <T = GazePoint | null>(selector: (point: GazePoint | null) => T = latestPoint as (point: GazePoint | null) => T): T => {
+    const { store } = useGazeStream();
+    return useSyncExternalStore(store.subscribe, () => selector(store.getSnapshot()));
+};
+
+// Calls the listener with every new gaze point without re-rendering the caller.
+export const useGazeListener = (listener: (point: GazePoint | null) => void) => {
+    const { store } = useGazeStream();
+    const listenerRef = useRef(listener);
+    listenerRef.current = listener;
+
+    useEffect(() => store.subscribe(() => listenerRef.current(store.getSnapshot())), [store]);
+};
+
+export const useAoiTracker = () => useGazeStream().aoiTracker;
+
+// Ref callback that makes an element an area of interest for as long as it is mounted.
+export const useAoiRef = (name: string) => {
+    const { aoiTracker } = useGazeStream();
+    return useCallback((element: Element | null) => element ? aoiTracker.registerElement(name, element) : undefined, [aoiTracker, name]);
+};
+
+// Calls the listener for every fixation, saccade, blink and wink without re-rendering the caller.
+export const useGazeEvents = (listener: (event: GazeStreamEvent) => void) => {
+    const { fixationDetector, blinkDetector } = useGazeStream();
+    const listenerRef = useRef(listener);
+    listenerRef.current = listener;
+
+    useEffect(() => {
+        const forward = (event: GazeStreamEvent) => listenerRef.current(event);
+        const unsubscribeFixations = fixationDetector.subscribe(forward);
+        const unsubscribeBlinks = blinkDetector.subscribe(forward);
+        return () => {
+            unsubscribeFixations();
+            unsubscribeBlinks();
+        };
+    }, [fixationDetector, blinkDetector]);
+};
+
+export const useCalibration = () => {
+    const { calibration, isCalibrating, setIsCalibrating, startCalibration, videoSource, calibrationProfile } = useGazeSession();
+    const canCalibrate = videoSource !== null;
+
+    const cancelCalibration = useCallback(() => setIsCalibrating(false), [setIsCalibrating]);
+
+    return {
+        calibration,
+        isCalibrated: !!calibration?.mapper,
+        isCalibrating,
+        canCalibrate,
+        calibrationProfile,
+        // Opens the calibration screen and starts a run of targets; it needs a running video source.
+        startCalibration,
+        cancelCalibration,
+    };
+};
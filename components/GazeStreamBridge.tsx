@@ -0,0 +1,41 @@
+import React, { useEffect, useState } from 'react';
+import type { GazeStreamingSettings } from '../types';
+import { toCalibrationStatusMessage, toGazeMessage, type GazeStreamClient } from '../utils/gazeStreaming';
+import { useCalibration, useGazeEvents, useGazeListener } from './GazeProvider';
+
+interface GazeStreamBridgeProps {
+    client: GazeStreamClient;
+    settings: GazeStreamingSettings;
+}
+
+// Forwards gaze samples, events and calibration status to the streaming client. Renders nothing,
+// and stays mounted while calibrating so the stream isn't interrupted.
+export const GazeStreamBridge: React.FC<GazeStreamBridgeProps> = ({ client, settings }) => {
+    const { calibration, isCalibrating } = useCalibration();
+    const [connected, setConnected] = useState(false);
+
+    useEffect(() => client.subscribe(state => setConnected(state.status === 'connected')), [client]);
+
+    useEffect(() => {
+        if (!settings.enabled) return;
+        try {
+            client.connect(settings.url);
+        } catch (e) {
+            console.error("Could not start gaze streaming:", e);
+        }
+        return () => client.disconnect();
+    }, [client, settings.enabled, settings.url]);
+
+    useGazeListener(point => {
+        if (point) client.send(toGazeMessage(point));
+    });
+
+    useGazeEvents(event => client.send({ type: 'event', timestamp: event.timestamp, event }));
+
+    // Status goes out on every change, and again on each new connection for a freshly started receiver.
+    useEffect(() => {
+        client.send(toCalibrationStatusMessage(calibration, isCalibrating));
+    }, [client, calibration, isCalibrating, connected]);
+
+    return null;
+};
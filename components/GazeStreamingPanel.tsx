@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import type { GazeStreamingSettings } from '../types';
+import { isGazeStreamUrl, type GazeStreamClient, type GazeStreamStatus } from '../utils/gazeStreaming';
+
+interface GazeStreamingPanelProps {
+    client: GazeStreamClient;
+    settings: GazeStreamingSettings;
+    onChange: (settings: GazeStreamingSettings) => void;
+}
+
+const STATUS_LABELS: Record<GazeStreamStatus, { label: string; className: string }> = {
+    disconnected: { label: 'Off', className: 'text-gray-400' },
+    connecting: { label: 'Connecting…', className: 'text-amber-300' },
+    connected: { label: 'Connected', className: 'text-green-400' },
+    reconnecting: { label: 'Reconnecting…', className: 'text-amber-300' },
+};
+
+export const GazeStreamingPanel: React.FC<GazeStreamingPanelProps> = ({ client, settings, onChange }) => {
+    const [state, setState] = useState(() => client.getState());
+    const urlValid = isGazeStreamUrl(settings.url);
+
+    useEffect(() => client.subscribe(setState), [client]);
+
+    const status = STATUS_LABELS[state.status];
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Gaze Streaming</h2>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500 focus:ring-offset-gray-800"
+                        checked={settings.enabled}
+                        onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+                        disabled={!urlValid}
+                    />
+                    Enabled
+                </label>
+            </div>
+            <p className="text-xs text-gray-400">
+                Sends gaze samples, fixations, blinks and calibration status as JSON over WebSocket.
+                Run <code>npm run stream-server</code> for a local server that logs and echoes them.
+            </p>
+
+            <div className="space-y-1">
+                <input
+                    type="text"
+                    value={settings.url}
+                    onChange={(e) => onChange({ ...settings, url: e.target.value.trim() })}
+                    disabled={settings.enabled}
+                    spellCheck={false}
+                    aria-label="WebSocket URL"
+                    className="w-full bg-gray-700 border border-gray-600 text-gray-100 text-sm font-mono rounded-lg p-2 disabled:text-gray-400"
+                />
+                {!urlValid && <p className="text-xs text-red-400" role="alert">Enter a ws:// or wss:// URL.</p>}
+            </div>
+
+            <p className="text-xs font-mono">
+                <span className={status.className}>{status.label}</span>
+                {state.buffered > 0 && <span className="text-gray-400"> · {state.buffered} messages buffered</span>}
+            </p>
+        </section>
+    );
+};
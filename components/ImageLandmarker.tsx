@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DrawingUtils, type FaceLandmarker } from '@mediapipe/tasks-vision';
+import type { FaceLandmarkerResult, GazeVector, HeadPose, NormalizedLandmark } from '../types';
+import { drawLandmarks } from '../utils/drawing';
+import { createFaceLandmarker } from '../utils/faceLandmarker';
+import { GazeEstimator, type GazeEstimate } from '../utils/gazeEstimator';
+import { extractHeadPose } from '../utils/headPose';
+import { DEFAULT_FILTER_SETTINGS } from '../utils/filters';
+import { downloadBlob, toFileSafeName } from '../utils/download';
+
+// Upper bound on faces analyzed per image.
+const MAX_FACES = 4;
+
+interface FaceAnalysis {
+    landmarks: NormalizedLandmark[];
+    headPose: HeadPose | null;
+    gaze: GazeEstimate | null;
+}
+
+interface ImageAnalysis {
+    fileName: string;
+    width: number;
+    height: number;
+    faces: FaceAnalysis[];
+}
+
+const formatVector = (v: GazeVector) => `(${v.x.toFixed(2)}, ${v.y.toFixed(2)})`;
+const formatAngle = (degrees: number) => `${degrees.toFixed(1)}°`;
+
+const loadImage = (file: File) => new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error(`Could not read ${file.name} as an image.`));
+    };
+    image.src = url;
+});
+
+/**
+ * Runs the landmarker on still images: draws the mesh and eye overlays for every face and
+ * reports head pose and per-eye gaze, with downloads for the annotated image and landmarks.
+ */
+export const ImageLandmarker: React.FC = () => {
+    const [analysis, setAnalysis] = useState<ImageAnalysis | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isDragging, setIsDragging] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const landmarkerRef = useRef<Promise<FaceLandmarker> | null>(null);
+
+    // Release the landmarker when the component goes away.
+    useEffect(() => {
+        return () => {
+            landmarkerRef.current?.then(landmarker => landmarker.close()).catch(() => {});
+        };
+    }, []);
+
+    const getLandmarker = () => {
+        if (!landmarkerRef.current) {
+            landmarkerRef.current = createFaceLandmarker({ runningMode: "IMAGE", numFaces: MAX_FACES });
+            // Allow a retry if the model failed to load.
+            landmarkerRef.current.catch(() => { landmarkerRef.current = null; });
+        }
+        return landmarkerRef.current;
+    };
+
+    const analyzeFile = async (file: File) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        if (!file.type.startsWith('image/')) {
+            setError(`${file.name} is not an image.`);
+            return;
+        }
+
+        setIsProcessing(true);
+        setError(null);
+        try {
+            const [landmarker, image] = await Promise.all([getLandmarker(), loadImage(file)]);
+            const results: FaceLandmarkerResult = landmarker.detect(image);
+
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Canvas 2D context is unavailable.');
+            ctx.drawImage(image, 0, 0);
+
+            // Still images have no temporal context, so smoothing is turned off.
+            const estimator = new GazeEstimator({ filterSettings: { ...DEFAULT_FILTER_SETTINGS, kind: 'none' } });
+            const drawingUtils = new DrawingUtils(ctx);
+            const faces = (results.faceLandmarks ?? []).map((landmarks, i): FaceAnalysis => {
+                const transformationMatrix = results.facialTransformationMatrixes?.[i];
+                estimator.reset();
+                const gaze = estimator.estimate({
+                    landmarks,
+                    transformationMatrix,
+                    width: canvas.width,
+                    height: canvas.height,
+                    timestamp: 0,
+                });
+                drawLandmarks(ctx, drawingUtils, landmarks, { gazeEstimate: gaze, drawTesselation: true });
+                // Head pose needs only the transformation matrix, so it is reported even when no irises are found.
+                return { landmarks, headPose: transformationMatrix ? extractHeadPose(transformationMatrix) : null, gaze };
+            });
+
+            // Label each face so the panel below can be matched to the image.
+            ctx.save();
+            ctx.font = `bold ${Math.max(14, Math.round(canvas.width / 40))}px sans-serif`;
+            ctx.fillStyle = '#22D3EE';
+            faces.forEach((face, i) => {
+                const top = face.landmarks.reduce((min, l) => (l.y < min.y ? l : min), face.landmarks[0]);
+                ctx.fillText(`#${i + 1}`, top.x * canvas.width, Math.max(20, top.y * canvas.height - 10));
+            });
+            ctx.restore();
+
+            setAnalysis({ fileName: file.name, width: canvas.width, height: canvas.height, faces });
+        } catch (err) {
+            console.error("Error analyzing image:", err);
+            setError(err instanceof Error ? err.message : 'Could not analyze the image.');
+            setAnalysis(null);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) analyzeFile(file);
+    };
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files?.[0];
+        if (file) analyzeFile(file);
+    };
+
+    const baseName = () => toFileSafeName((analysis?.fileName ?? 'image').replace(/\.[^.]+$/, ''));
+
+    const handleDownloadImage = () => {
+        canvasRef.current?.toBlob(blob => {
+            if (blob) downloadBlob(blob, `${baseName()}-annotated.png`);
+        }, 'image/png');
+    };
+
+    const handleDownloadLandmarks = () => {
+        if (!analysis) return;
+        const payload = {
+            image: analysis.fileName,
+            width: analysis.width,
+            height: analysis.height,
+            faces: analysis.faces.map(face => ({
+                landmarks: face.landmarks.map(({ x, y, z }) => ({ x, y, z })),
+                headPose: face.headPose,
+                gaze: face.gaze ? {
+                    rightEye: face.gaze.rightEye.vector,
+                    leftEye: face.gaze.leftEye.vector,
+                    combined: face.gaze.combinedVector,
+                } : null,
+            })),
+        };
+        downloadBlob(new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }), `${baseName()}-landmarks.json`);
+    };
+
+    const buttonClass = 'py-2 px-4 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <h2 className="text-xl font-bold text-white">Image Analysis</h2>
+
+            <div
+                onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+                className={`border-2 border-dashed rounded-lg p-6 text-center text-sm cursor-pointer transition-colors duration-200 ${
+                    isDragging ? 'border-cyan-400 bg-cyan-900/20 text-cyan-200' : 'border-gray-600 text-gray-400 hover:border-gray-500'
+                }`}
+            >
+                {isProcessing ? 'Analyzing…' : 'Drop an image here or click to choose one'}
+                <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+            <canvas ref={canvasRef} className={analysis ? 'rounded-lg w-full h-auto' : 'hidden'}></canvas>
+
+            {analysis && (
+                <>
+                    {analysis.faces.length === 0 ? (
+                        <p className="text-sm text-gray-400">No faces detected.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {analysis.faces.map((face, i) => (
+                                <li key={i} className="bg-gray-900/50 rounded-lg p-3 text-xs font-mono text-gray-300 space-y-1">
+                                    <p className="font-sans font-semibold text-cyan-300">Face #{i + 1}</p>
+                                    {face.headPose ? (
+                                        <p>
+                                            Yaw {formatAngle(face.headPose.yaw)} · Pitch {formatAngle(face.headPose.pitch)} · Roll {formatAngle(face.headPose.roll)}
+                                        </p>
+                                    ) : (
+                                        <p className="text-gray-500">Head pose unavailable</p>
+                                    )}
+                                    {face.gaze ? (
+                                        <p>
+                                            <span className="text-red-400">Right eye</span> {formatVector(face.gaze.rightEye.vector)} ·{' '}
+                                            <span className="text-green-400">Left eye</span> {formatVector(face.gaze.leftEye.vector)}
+                                        </p>
+                                    ) : (
+                                        <p className="text-gray-500">Irises not found</p>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="flex gap-3">
+                        <button onClick={handleDownloadImage} className={buttonClass}>Download PNG</button>
+                        <button onClick={handleDownloadLandmarks} disabled={analysis.faces.length === 0} className={buttonClass}>
+                            Download Landmarks
+                        </button>
+                    </div>
+                </>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { ImplicitCorrection } from '../types';
+import { MAX_IMPLICIT_DRIFT } from '../utils/implicitCalibration';
+
+interface ImplicitRecalibrationSettingsProps {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+    isCalibrated: boolean;
+    correction: ImplicitCorrection | null;
+    onRevert: () => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const ImplicitRecalibrationSettings: React.FC<ImplicitRecalibrationSettingsProps> = ({ enabled, onEnabledChange, isCalibrated, correction, onRevert }) => {
+    const learning = enabled && isCalibrated;
+    return (
+        <div className="pt-4 mt-4 border-t border-gray-700 space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <label htmlFor="implicitRecalibrationToggle" className={`text-sm font-medium ${isCalibrated ? 'text-gray-300 cursor-pointer' : 'text-gray-500 cursor-not-allowed'}`}>
+                    Learn From Clicks
+                    <p className="text-xs font-normal text-gray-400">Treats each click as a gaze target and gently corrects drift.</p>
+                </label>
+                <input
+                    type="checkbox"
+                    id="implicitRecalibrationToggle"
+                    checked={enabled}
+                    onChange={(e) => onEnabledChange(e.target.checked)}
+                    disabled={!isCalibrated}
+                    className="w-4 h-4 accent-cyan-500 disabled:opacity-50"
+                />
+            </div>
+
+            <div className="flex items-center justify-between gap-4 text-xs">
+                <span className="flex items-center gap-2 text-gray-400" role="status">
+                    <span className={`inline-block w-2 h-2 rounded-full ${learning ? 'bg-green-400 animate-pulse' : correction ? 'bg-yellow-400' : 'bg-gray-600'}`}></span>
+                    {correction
+                        ? `${learning ? 'Learning' : 'Paused'} · ${correction.clickCount} click${correction.clickCount === 1 ? '' : 's'} · drift ${formatPercent(correction.drift)} of ${formatPercent(MAX_IMPLICIT_DRIFT)}`
+                        : learning ? 'Learning · waiting for clicks' : 'Using the explicit calibration'}
+                </span>
+                <button
+                    onClick={onRevert}
+                    disabled={!correction}
+                    className="py-1 px-3 rounded-lg font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                    Revert
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import type { GazeSessionMetadata } from '../types';
+import { toValidationMetrics } from '../utils/calibrationValidation';
+import { downloadBlob } from '../utils/download';
+import { MAX_LOGGED_SAMPLES, sessionLogToCsv, sessionLogToJson, type SessionLogger } from '../utils/sessionLogger';
+import { useAoiTracker, useGazeEvents, useGazeListener, useGazeSession, type GazeSession } from './GazeProvider';
+
+interface SessionLogPanelProps {
+    logger: SessionLogger;
+}
+
+// Counts are refreshed on a timer rather than per sample, so logging doesn't re-render the panel every frame.
+const COUNT_REFRESH_MS = 1000;
+
+const buildMetadata = (session: GazeSession): Omit<GazeSessionMetadata, 'viewportWidth' | 'viewportHeight' | 'devicePixelRatio'> => ({
+    screenGeometry: session.screenGeometry,
+    calibrationProfile: session.calibration?.mapper ? session.calibrationProfile : null,
+    mapper: session.calibration?.mapper?.kind ?? null,
+    featureLayout: session.calibration?.mapper?.featureLayout ?? null,
+    validation: session.calibration?.validation ? toValidationMetrics(session.calibration.validation) : null,
+    highSensitivity: session.highSensitivity,
+    eventThresholds: session.eventThresholds,
+});
+
+const logFileName = (startedAt: number, extension: string) =>
+    `gaze-session-${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+/**
+ * Logs gaze samples and events while switched on and exports them as CSV or JSON. The logger
+ * is owned by the caller so a log survives the panel being hidden; nothing is logged meanwhile.
+ */
+export const SessionLogPanel: React.FC<SessionLogPanelProps> = ({ logger }) => {
+    const session = useGazeSession();
+    const aoiTracker = useAoiTracker();
+    const [isLogging, setIsLogging] = useState(logger.isLogging);
+    const [counts, setCounts] = useState({ samples: logger.sampleCount, events: logger.eventCount });
+
+    useGazeListener(point => {
+        if (point) logger.addSample(point, aoiTracker.hitTest(point));
+    });
+    useGazeEvents(event => logger.addEvent(event));
+
+    // Keep the metadata current if calibration or settings change while logging.
+    const metadata = buildMetadata(session);
+    const metadataKey = JSON.stringify(metadata);
+    useEffect(() => {
+        logger.updateMetadata(metadata);
+    }, [logger, metadataKey]);
+
+    useEffect(() => {
+        const refresh = () => setCounts({ samples: logger.sampleCount, events: logger.eventCount });
+        refresh();
+        if (!isLogging) return;
+        const interval = window.setInterval(refresh, COUNT_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [logger, isLogging]);
+
+    const toggleLogging = () => {
+        if (logger.isLogging) {
+            logger.stop();
+        } else {
+            // Area of interest metrics restart too, so the exported figures cover the same span.
+            aoiTracker.reset();
+            logger.start({
+                viewportWidth: window.innerWidth,
+                viewportHeight: window.innerHeight,
+                devicePixelRatio: window.devicePixelRatio,
+                ...metadata,
+            });
+        }
+        setIsLogging(logger.isLogging);
+    };
+
+    const exportLog = (format: 'csv' | 'json') => {
+        const recorded = logger.getLog();
+        if (!recorded) return;
+        const log = { ...recorded, aoiMetrics: aoiTracker.getAllMetrics() };
+        const blob = format === 'csv'
+            ? new Blob([sessionLogToCsv(log)], { type: 'text/csv' })
+            : new Blob([sessionLogToJson(log)], { type: 'application/json' });
+        downloadBlob(blob, logFileName(log.startedAt, format));
+    };
+
+    const hasLog = counts.samples > 0 || counts.events > 0;
+    const buttonClass = 'py-2 px-4 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <h2 className="text-xl font-bold text-white">Session Log</h2>
+            <p className="text-xs text-gray-400">
+                Logs every gaze sample with per-eye vectors, head pose and areas of interest, plus fixations, saccades and blinks.
+                The CSV has one row per sample; the JSON also holds the events, area metrics and session settings.
+            </p>
+
+            <button
+                onClick={toggleLogging}
+                data-gaze-target=""
+                className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 ${
+                    isLogging ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-600 hover:bg-gray-700'
+                }`}
+            >
+                {isLogging ? 'STOP LOGGING' : 'START LOGGING'}
+            </button>
+
+            <p className="text-xs font-mono text-gray-400">
+                {counts.samples} samples · {counts.events} events
+                {counts.samples >= MAX_LOGGED_SAMPLES && <span className="text-amber-300"> · sample limit reached</span>}
+            </p>
+
+            <div className="flex gap-3">
+                <button onClick={() => exportLog('csv')} disabled={!hasLog} className={buttonClass}>Export CSV</button>
+                <button onClick={() => exportLog('json')} disabled={!hasLog} className={buttonClass}>Export JSON</button>
+            </div>
+        </section>
+    );
+};
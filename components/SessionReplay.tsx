@@ -0,0 +1,304 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { DrawingUtils } from '@mediapipe/tasks-vision';
+import type { GazePoint, GazeQualityFlags, GazeRecording, GazeVector, RecordedGaze, RecordedGazePoint } from '../types';
+import { BlinkDetector } from '../utils/blinkDetector';
+import { drawLandmarks } from '../utils/drawing';
+import { GazeEstimator } from '../utils/gazeEstimator';
+import { assessGazeQuality, markFaceLost } from '../utils/gazeQuality';
+import { HeadPoseMonitor } from '../utils/headPoseDrift';
+import { decodeLandmarks, decodeRecording, RECORDING_FILE_EXTENSION, toRecordedGaze, toRecordedGazePoint } from '../utils/sessionRecording';
+
+interface SessionReplayProps {
+    onGazeUpdate: (point: GazePoint | null) => void;
+}
+
+// Frames re-run through the filters before a seek target so smoothing has settled.
+const SEEK_WARMUP_FRAMES = 30;
+
+interface GazeOutput {
+    gaze: RecordedGaze | null;
+    point: RecordedGazePoint | null;
+}
+
+// The frame as it was tracked live next to the same frame re-estimated by the current code.
+interface FrameComparison {
+    recorded: GazeOutput | null; // Null for recordings made before the output was stored
+    replayed: GazeOutput;
+}
+
+const formatVector = (v: GazeVector | undefined) => v ? `(${v.x.toFixed(3)}, ${v.y.toFixed(3)})` : '–';
+const formatPoint = (p: RecordedGazePoint | null) => p ? `(${p.u.toFixed(3)}, ${p.v.toFixed(3)})` : '–';
+const formatFlags = (p: RecordedGazePoint | null) => {
+    if (!p) return '–';
+    const set = (Object.keys(p.flags) as (keyof GazeQualityFlags)[]).filter(flag => p.flags[flag]);
+    return set.length ? set.join(', ') : 'none';
+};
+
+const ComparisonTable: React.FC<{ comparison: FrameComparison }> = ({ comparison }) => {
+    const { recorded, replayed } = comparison;
+    const rows: [string, (output: GazeOutput) => string][] = [
+        ['Point (u, v)', o => formatPoint(o.point)],
+        ['Confidence', o => o.point ? o.point.confidence.toFixed(2) : '–'],
+        ['Flags', o => formatFlags(o.point)],
+        ['Right eye', o => formatVector(o.gaze?.vec_R)],
+        ['Left eye', o => formatVector(o.gaze?.vec_L)],
+        ['Combined', o => formatVector(o.gaze?.combined)],
+    ];
+    return (
+        <table className="w-full text-xs font-mono text-gray-300">
+            <thead className="text-gray-400">
+                <tr>
+                    <th className="text-left font-normal pb-1"></th>
+                    <th className="text-right font-normal pb-1">Recorded</th>
+                    <th className="text-right font-normal pb-1">Replayed</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(([label, format]) => (
+                    <tr key={label} className="border-t border-gray-700">
+                        <td className="py-1 font-sans text-gray-400">{label}</td>
+                        <td className="py-1 text-right">{recorded ? format(recorded) : 'not recorded'}</td>
+                        <td className="py-1 text-right">{format(replayed)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
+
+const formatTime = (ms: number) => {
+    const totalSeconds = Math.max(0, ms) / 1000;
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+    return `${minutes}:${seconds}`;
+};
+
+/**
+ * Plays a saved session back through the gaze estimator and canvas overlay, with the gaze the
+ * tracker recorded live shown next to the re-estimated gaze. No camera or MediaPipe model is needed.
+ */
+export const SessionReplay: React.FC<SessionReplayProps> = ({ onGazeUpdate }) => {
+    const [recording, setRecording] = useState<GazeRecording | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [comparison, setComparison] = useState<FrameComparison | null>(null);
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const estimatorRef = useRef<GazeEstimator | null>(null);
+    // Blink and drift state come from the recorded landmarks; these aren't the provider's detectors, so warm-up frames emit no events.
+    const blinkDetectorRef = useRef(new BlinkDetector());
+    const headPoseMonitorRef = useRef(new HeadPoseMonitor());
+    const frameIndexRef = useRef(-1);
+    // Offset that maps recording time onto the performance.now() clock for emitted gaze points.
+    const clockOffsetRef = useRef(0);
+    const lastPointRef = useRef<GazePoint | null>(null);
+
+    const duration = recording?.frames.length ? recording.frames[recording.frames.length - 1].timestamp : 0;
+
+    const resetTracking = () => {
+        estimatorRef.current?.reset();
+        blinkDetectorRef.current.reset();
+        headPoseMonitorRef.current.reset();
+    };
+
+    // Runs one recorded frame through blink detection and the estimator; draws and emits it only when asked to.
+    const processFrame = useCallback((index: number, render: boolean) => {
+        const canvas = canvasRef.current;
+        const estimator = estimatorRef.current;
+        if (!recording || !canvas || !estimator) return;
+        const frame = recording.frames[index];
+        const landmarks = frame.faceLandmarks[0] ? decodeLandmarks(frame.faceLandmarks[0], recording.landmarkScale) : null;
+        const matrix = frame.facialTransformationMatrixes[0];
+
+        const blinkState = landmarks ? blinkDetectorRef.current.update({
+            landmarks,
+            width: recording.frameWidth,
+            height: recording.frameHeight,
+            timestamp: frame.timestamp,
+        }) : null;
+        const gazeEstimate = landmarks && blinkState ? estimator.estimate({
+            landmarks,
+            transformationMatrix: matrix ? { data: matrix } : undefined,
+            width: recording.frameWidth,
+            height: recording.frameHeight,
+            timestamp: frame.timestamp,
+            calibration: recording.calibration,
+            highSensitivity: recording.highSensitivity,
+            holdGaze: blinkState.bothEyesClosed,
+            eyeAspectRatios: { right: blinkState.rightEye.aspectRatio, left: blinkState.leftEye.aspectRatio },
+            dominantEye: recording.dominantEye ?? 'none',
+        }) : null;
+        const headPoseReference = recording.calibration?.headPoseReference;
+        const headCheck = headPoseReference && gazeEstimate?.headPose
+            ? headPoseMonitorRef.current.update(headPoseReference, gazeEstimate.headPose)
+            : null;
+        if (!landmarks) resetTracking();
+
+        if (!render) return;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = '#000';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            if (landmarks) {
+                drawLandmarks(ctx, new DrawingUtils(ctx), landmarks, { gazeEstimate, drawTesselation: true });
+            }
+        }
+        const timestamp = frame.timestamp + clockOffsetRef.current;
+        const point: GazePoint | null = gazeEstimate && blinkState ? {
+            x: gazeEstimate.point.u * window.innerWidth,
+            y: gazeEstimate.point.v * window.innerHeight,
+            timestamp,
+            ...assessGazeQuality({
+                estimate: gazeEstimate,
+                eyesOpen: { right: !blinkState.rightEye.closed, left: !blinkState.leftEye.closed },
+                outsideCalibratedRange: !!headCheck && !headCheck.withinTolerance,
+            }),
+            eyeVectors: { right: gazeEstimate.rightEye.vector, left: gazeEstimate.leftEye.vector },
+            ...(gazeEstimate.headPose && { headPose: gazeEstimate.headPose }),
+        } : lastPointRef.current && markFaceLost(lastPointRef.current, timestamp);
+        if (gazeEstimate) lastPointRef.current = point;
+        onGazeUpdate(point);
+        setComparison({
+            recorded: frame.point === undefined ? null : { gaze: frame.gaze ?? null, point: frame.point },
+            replayed: {
+                gaze: gazeEstimate && toRecordedGaze(gazeEstimate),
+                point: point && toRecordedGazePoint(point, window.innerWidth, window.innerHeight),
+            },
+        });
+    }, [recording, onGazeUpdate]);
+
+    const seek = useCallback((time: number) => {
+        if (!recording || recording.frames.length === 0) return;
+        const frames = recording.frames;
+        let index = frames.findIndex(f => f.timestamp > time) - 1;
+        if (index < 0) index = time <= 0 ? 0 : frames.length - 1;
+
+        resetTracking();
+        // Re-anchor the clock at the target so emitted timestamps keep increasing after seeking backwards.
+        clockOffsetRef.current = performance.now() - frames[index].timestamp;
+        for (let i = Math.max(0, index - SEEK_WARMUP_FRAMES); i <= index; i++) {
+            processFrame(i, i === index);
+        }
+        frameIndexRef.current = index;
+        setCurrentTime(frames[index].timestamp);
+    }, [recording, processFrame]);
+
+    // Set up a fresh estimator whenever a recording is loaded.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!recording || !canvas) return;
+        canvas.width = recording.frameWidth;
+        canvas.height = recording.frameHeight;
+        estimatorRef.current = new GazeEstimator({ filterSettings: recording.filterSettings });
+        lastPointRef.current = null;
+        seek(0);
+    }, [recording]);
+
+    // Playback loop: advance through every frame whose time has come, rendering the latest.
+    useEffect(() => {
+        if (!isPlaying || !recording) return;
+        const frames = recording.frames;
+        const startIndex = Math.max(0, frameIndexRef.current);
+        const startTime = frames[startIndex]?.timestamp ?? 0;
+        const startedAt = performance.now();
+        clockOffsetRef.current = startedAt - startTime;
+        let handle: number;
+
+        const tick = (now: number) => {
+            const playbackTime = startTime + (now - startedAt);
+            let index = frameIndexRef.current;
+            while (index + 1 < frames.length && frames[index + 1].timestamp <= playbackTime) {
+                index++;
+                processFrame(index, index + 1 >= frames.length || frames[index + 1].timestamp > playbackTime);
+            }
+            frameIndexRef.current = index;
+            setCurrentTime(Math.min(playbackTime, duration));
+
+            if (index + 1 >= frames.length) {
+                setIsPlaying(false);
+                return;
+            }
+            handle = requestAnimationFrame(tick);
+        };
+        handle = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(handle);
+    }, [isPlaying, recording, processFrame, duration]);
+
+    // Stop emitting gaze when the replay is closed.
+    useEffect(() => () => onGazeUpdate(null), [onGazeUpdate]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsPlaying(false);
+        try {
+            const loaded = await decodeRecording(file);
+            setError(null);
+            frameIndexRef.current = -1;
+            setRecording(loaded);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not load recording.');
+        }
+    };
+
+    const togglePlayback = () => {
+        if (!recording) return;
+        if (!isPlaying && frameIndexRef.current >= recording.frames.length - 1) {
+            seek(0); // Restart from the beginning once the end was reached
+        }
+        setIsPlaying(p => !p);
+    };
+
+    const buttonClass = 'py-2 px-4 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed';
+
+    return (
+        <section className="bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-xl font-bold text-white">Session Replay</h2>
+                <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+                    Load Recording
+                </button>
+                <input ref={fileInputRef} type="file" accept={`${RECORDING_FILE_EXTENSION},application/gzip,application/json`} className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {error && <p className="text-xs text-red-400" role="alert">{error}</p>}
+
+            <canvas ref={canvasRef} className={recording ? 'rounded-lg w-full h-auto bg-black' : 'hidden'}></canvas>
+
+            {recording && (
+                <div className="flex items-center gap-3">
+                    <button onClick={togglePlayback} className={buttonClass}>
+                        {isPlaying ? 'Pause' : 'Play'}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={duration}
+                        step={1}
+                        value={currentTime}
+                        onChange={(e) => {
+                            setIsPlaying(false);
+                            seek(Number(e.target.value));
+                        }}
+                        className="flex-grow accent-cyan-500"
+                        aria-label="Seek"
+                    />
+                    <span className="text-xs font-mono text-gray-400 w-24 text-right">
+                        {formatTime(currentTime)} / {formatTime(duration)}
+                    </span>
+                </div>
+            )}
+
+            {recording && comparison && <ComparisonTable comparison={comparison} />}
+
+            {recording && (
+                <p className="text-xs text-gray-500">
+                    {recording.frames.length} frames, {recording.frameWidth}×{recording.frameHeight}, {recording.calibration?.mapper ? 'calibrated' : 'uncalibrated'}
+                </p>
+            )}
+        </section>
+    );
+};
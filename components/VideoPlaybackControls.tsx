@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+
+interface VideoPlaybackControlsProps {
+    video: HTMLVideoElement;
+}
+
+// Step size for the frame buttons; browsers don't expose a file's frame rate.
+const FRAME_STEP_SECONDS = 1 / 30;
+const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+const formatTime = (seconds: number) => {
+    const minutes = Math.floor(Math.max(0, seconds) / 60);
+    const rest = (Math.max(0, seconds) % 60).toFixed(2).padStart(5, '0');
+    return `${minutes}:${rest}`;
+};
+
+/**
+ * Transport controls for a video file used as the frame source.
+ * State is read back from the element's own events, so it stays in sync with autoplay and the end of the file.
+ */
+export const VideoPlaybackControls: React.FC<VideoPlaybackControlsProps> = ({ video }) => {
+    const [isPaused, setIsPaused] = useState(video.paused);
+    const [currentTime, setCurrentTime] = useState(video.currentTime);
+    const [duration, setDuration] = useState(video.duration || 0);
+    const [playbackRate, setPlaybackRate] = useState(video.playbackRate);
+
+    useEffect(() => {
+        const sync = () => {
+            setIsPaused(video.paused);
+            setCurrentTime(video.currentTime);
+            setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+            setPlaybackRate(video.playbackRate);
+        };
+        const events = ['play', 'pause', 'timeupdate', 'seeked', 'durationchange', 'ratechange', 'ended'];
+        events.forEach(name => video.addEventListener(name, sync));
+        sync();
+        return () => events.forEach(name => video.removeEventListener(name, sync));
+    }, [video]);
+
+    const togglePlayback = () => {
+        if (video.paused) {
+            if (video.ended) video.currentTime = 0;
+            video.play().catch(err => console.error("Error playing video:", err));
+        } else {
+            video.pause();
+        }
+    };
+
+    const stepFrame = (direction: 1 | -1) => {
+        video.pause();
+        video.currentTime = Math.min(duration, Math.max(0, video.currentTime + direction * FRAME_STEP_SECONDS));
+    };
+
+    const buttonClass = 'py-2 px-3 rounded-lg text-sm font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700';
+
+    return (
+        <div className="bg-gray-900/50 rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-2">
+                <button onClick={() => stepFrame(-1)} className={buttonClass} aria-label="Previous frame">⏮</button>
+                <button onClick={togglePlayback} className={`${buttonClass} w-20`}>
+                    {isPaused ? 'Play' : 'Pause'}
+                </button>
+                <button onClick={() => stepFrame(1)} className={buttonClass} aria-label="Next frame">⏭</button>
+                <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={FRAME_STEP_SECONDS}
+                    value={currentTime}
+                    onChange={(e) => { video.currentTime = Number(e.target.value); }}
+                    className="flex-grow accent-cyan-500"
+                    aria-label="Seek"
+                />
+                <span className="text-xs font-mono text-gray-400 w-28 text-right">
+                    {formatTime(currentTime)} / {formatTime(duration)}
+                </span>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+                Speed
+                <select
+                    value={playbackRate}
+                    onChange={(e) => { video.playbackRate = Number(e.target.value); }}
+                    className="bg-gray-700 text-white rounded px-2 py-1"
+                >
+                    {PLAYBACK_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}×</option>
+                    ))}
+                </select>
+            </label>
+        </div>
+    );
+};
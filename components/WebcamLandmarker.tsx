@@ -2,98 +2,46 @@
 
 
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { DrawingUtils, FaceLandmarker } from '@mediapipe/tasks-vision';
-import type { FaceLandmarkerResult, CalibrationData, CalibrationSample, CalibrationState, GazePoint, CalibrationStep, GazeVector, NormalizedGazePoint, TranslationVector, CalibrationPointData } from '../types';
-import { drawLandmarks, SCREEN_POSITION_MAP } from '../utils/drawing';
+import type { FaceLandmarkerResult, CalibrationData, CalibrationSample, GazePoint, CalibrationStep, GazeVector, NormalizedGazePoint, TranslationVector, CalibrationPointData, GazeFeatureSet, GazeMapperKind, GazeMapperModel, HeadPose, GazeFilterSettings, ValidationPointResult, CalibrationPattern, CalibrationTarget, DominantEye, EyeSide } from '../types';
+import { toBlendshapeScores } from '../utils/blendshapes';
+import { buildCalibrationTargets, DEFAULT_CALIBRATION_PATTERN, LEGACY_TARGET_POSITIONS } from '../utils/calibrationPatterns';
+import { buildPursuitTrainingPoints, pursuitPosition } from '../utils/smoothPursuit';
+import { ImplicitRecalibrator } from '../utils/implicitCalibration';
+import { buildHeadPoseReference, HeadPoseMonitor, measureFaceBox, type HeadPoseSample } from '../utils/headPoseDrift';
+import { assessGazeQuality, markFaceLost } from '../utils/gazeQuality';
+import { combineEyeAverages, DOMINANT_EYE_LABELS } from '../utils/eyeWeighting';
+import { summarizeValidation, summarizeValidationPoint, VALIDATION_FRAMES, VALIDATION_TARGETS } from '../utils/calibrationValidation';
+import { drawHeadGuide, drawLandmarks } from '../utils/drawing';
+import { GazeEstimator, type GazeEstimate } from '../utils/gazeEstimator';
+import { encodeRecording, RECORDING_FILE_EXTENSION, SessionRecorder } from '../utils/sessionRecording';
+import { downloadBlob } from '../utils/download';
+import { MediaClock } from '../utils/mediaClock';
+import { DEFAULT_FEATURE_SET, FEATURE_SET_LAYOUTS, findFeatureSet, LEARNED_HEAD_COMPENSATION_FEATURE_SET, usesHeadPose } from '../utils/calibrationModel';
+import { benchmarkGazeMappers, DEFAULT_GAZE_MAPPER, fitGazeMapper } from '../utils/gazeMappers';
+import { averageHeadPoses } from '../utils/headPose';
+import { DEFAULT_FILTER_SETTINGS } from '../utils/filters';
+import { downloadCalibrationProfile, loadCalibrationProfile } from '../utils/calibrationStorage';
 import { CalibrationDisplay } from './CalibrationDisplay';
-
-// --- Matrix Math Utilities for Ridge Regression ---
-type Matrix = number[][];
-type Vector = number[];
-
-const transpose = (matrix: Matrix): Matrix => {
-    return matrix[0].map((_, colIndex) => matrix.map(row => row[colIndex]));
-};
-const multiply = (a: Matrix, b: Matrix): Matrix => {
-    const aNumRows = a.length, aNumCols = a[0].length;
-    const bNumRows = b.length, bNumCols = b[0].length;
-    if (aNumCols !== bNumRows) throw new Error("Matrix dimensions are not compatible for multiplication.");
-    const result: Matrix = new Array(aNumRows).fill(0).map(() => new Array(bNumCols).fill(0));
-    for (let r = 0; r < aNumRows; r++) for (let c = 0; c < bNumCols; c++) for (let i = 0; i < aNumCols; i++) result[r][c] += a[r][i] * b[i][c];
-    return result;
-};
-const multiplyVector = (matrix: Matrix, vector: Vector): Vector => {
-    const numRows = matrix.length, numCols = matrix[0].length;
-    if (numCols !== vector.length) throw new Error("Matrix and vector dimensions are not compatible.");
-    const result: Vector = new Array(numRows).fill(0);
-    for (let r = 0; r < numRows; r++) for (let c = 0; c < numCols; c++) result[r] += matrix[r][c] * vector[c];
-    return result;
-};
-const add = (a: Matrix, b: Matrix): Matrix => {
-    const numRows = a.length, numCols = a[0].length;
-    if (numRows !== b.length || numCols !== b[0].length) throw new Error("Matrix dimensions must be same for addition.");
-    const result: Matrix = new Array(numRows).fill(0).map(() => new Array(numCols).fill(0));
-    for (let r = 0; r < numRows; r++) for (let c = 0; c < numCols; c++) result[r][c] = a[r][c] + b[r][c];
-    return result;
-};
-const identity = (size: number): Matrix => {
-    const result: Matrix = new Array(size).fill(0).map(() => new Array(size).fill(0));
-    for (let i = 0; i < size; i++) result[i][i] = 1;
-    return result;
-};
-const scalarMultiply = (matrix: Matrix, scalar: number): Matrix => matrix.map(row => row.map(val => val * scalar));
-const invert = (matrix: Matrix): Matrix | null => {
-    const n = matrix.length;
-    if (n === 0 || n !== matrix[0].length) return null;
-    const augmented: Matrix = matrix.map((row, i) => [...row, ...identity(n)[i]]);
-    for (let i = 0; i < n; i++) {
-        let maxRow = i;
-        for (let k = i + 1; k < n; k++) if (Math.abs(augmented[k][i]) > Math.abs(augmented[maxRow][i])) maxRow = k;
-        [augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]];
-        const pivot = augmented[i][i];
-        if (Math.abs(pivot) < 1e-10) return null; // Singular
-        for (let j = i; j < 2 * n; j++) augmented[i][j] /= pivot;
-        for (let k = 0; k < n; k++) {
-            if (k !== i) {
-                const factor = augmented[k][i];
-                for (let j = i; j < 2 * n; j++) augmented[k][j] -= factor * augmented[i][j];
-            }
-        }
-    }
-    return augmented.map(row => row.slice(n));
-};
-const ridgeRegression = (X: Matrix, y: Vector, lambda: number): Vector | null => {
-    try {
-        const XT = transpose(X);
-        const XTX = multiply(XT, X);
-        const lambdaI = scalarMultiply(identity(XTX.length), lambda);
-        const term1_inv = invert(add(XTX, lambdaI));
-        if (!term1_inv) {
-            console.error("Matrix is singular, cannot perform regression.");
-            return null;
-        }
-        const term2 = multiply(term1_inv, XT);
-        return multiplyVector(term2, y);
-    } catch (e) {
-        console.error("Error during ridge regression:", e);
-        return null;
-    }
-};
-
+import { VideoPlaybackControls } from './VideoPlaybackControls';
+import { CalibrationProfiles } from './CalibrationProfiles';
+import { CalibrationModelSettings } from './CalibrationModelSettings';
+import { CalibrationPatternSettings } from './CalibrationPatternSettings';
+import { FilterSettings } from './FilterSettings';
+import { ImplicitRecalibrationSettings } from './ImplicitRecalibrationSettings';
+import { useGazeSession } from './GazeProvider';
 
 interface WebcamLandmarkerProps {
     faceLandmarker: FaceLandmarker;
-    isCalibrating: boolean;
-    setIsCalibrating: (isCalibrating: boolean) => void;
-    onGazeUpdate: (point: GazePoint | null) => void;
-    highSensitivity: boolean;
-    setHighSensitivity: (value: boolean) => void;
 }
 
 const CALIBRATION_FRAMES = 90; // Approx 3 seconds at 30fps
 const AWAIT_TIME = 2000; // 2 seconds to look at the next point
+const HEAD_MOVE_TIME = 3000; // Extra time to settle into a new head position
 const Z_SCORE_THRESHOLD = 2.0;
+const MAX_PURSUIT_SAMPLES = 5000; // Bounds memory if frames arrive much faster than expected
+const BLINK_GUARD_MS = 150; // Calibration samples this close to a blink are discarded
 
 // Helper to calculate mean and standard deviation
 const getStats = (data: number[]) => {
@@ -102,17 +50,113 @@ const getStats = (data: number[]) => {
     return { mean, stdDev };
 };
 
-export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmarker, isCalibrating, setIsCalibrating, onGazeUpdate, highSensitivity, setHighSensitivity }) => {
-    const [webcamRunning, setWebcamRunning] = useState(false);
+// Averages one eye's vectors over the samples where it was open, after z-score outlier rejection.
+// Returns null if the eye was closed for most of the point.
+const averageOpenEye = (samples: CalibrationSample[], eye: EyeSide): GazeVector | null => {
+    const vectors = samples.filter(s => s.eyesOpen[eye]).map(s => eye === 'right' ? s.vec_R : s.vec_L);
+    if (vectors.length < CALIBRATION_FRAMES / 2) return null;
+
+    const statsX = getStats(vectors.map(v => v.x));
+    const statsY = getStats(vectors.map(v => v.y));
+    const filtered = vectors.filter(v =>
+        Math.abs((v.x - statsX.mean) / (statsX.stdDev + 1e-6)) < Z_SCORE_THRESHOLD &&
+        Math.abs((v.y - statsY.mean) / (statsY.stdDev + 1e-6)) < Z_SCORE_THRESHOLD
+    );
+    const vectorsToUse = filtered.length > 10 ? filtered : vectors; // Use original if filtering is too aggressive
+    return {
+        x: vectorsToUse.reduce((sum, v) => sum + v.x, 0) / vectorsToUse.length,
+        y: vectorsToUse.reduce((sum, v) => sum + v.y, 0) / vectorsToUse.length,
+    };
+};
+
+// Pairs each collected calibration point with the screen position it was recorded at.
+// With an eye given, that eye's own vectors are used and points recorded without them are skipped.
+const getTrainingPoints = (points: CalibrationData['points'], eye?: EyeSide) => {
+    return Object.entries(points)
+        // FIX: Add type annotation for 'data' to resolve type inference issue with Object.entries.
+        .map(([pointId, data]: [string, CalibrationPointData | undefined]) => {
+            const screenPos = data?.target ?? LEGACY_TARGET_POSITIONS[pointId];
+            const gaze = eye === 'right' ? data?.avgGazeRight : eye === 'left' ? data?.avgGazeLeft : data?.avgGaze;
+            if (data && screenPos && gaze) {
+                return {
+                    gaze,
+                    headPose: data.avgHeadPose,
+                    target: screenPos,
+                };
+            }
+            return null;
+        })
+        .filter((item): item is NonNullable<typeof item> => !!item);
+};
+
+const fitCalibrationMapper = (points: CalibrationData['points'], kind: GazeMapperKind, featureSet: GazeFeatureSet): GazeMapperModel | null => {
+    const trainingData = getTrainingPoints(points);
+    return fitGazeMapper(kind, FEATURE_SET_LAYOUTS[featureSet], trainingData, trainingData.map(d => d.target));
+};
+
+// Per-eye models need every point to carry both eyes' vectors; older profiles get none.
+const fitEyeMappers = (points: CalibrationData['points'], kind: GazeMapperKind, featureSet: GazeFeatureSet): Record<EyeSide, GazeMapperModel> | undefined => {
+    const total = Object.keys(points).length;
+    const fitEye = (eye: EyeSide) => {
+        const trainingData = getTrainingPoints(points, eye);
+        if (trainingData.length < total) return null;
+        return fitGazeMapper(kind, FEATURE_SET_LAYOUTS[featureSet], trainingData, trainingData.map(d => d.target));
+    };
+    const right = fitEye('right');
+    const left = fitEye('left');
+    return right && left ? { right, left } : undefined;
+};
+
+// Runs the frame loop for the session's video source and the calibration screen. Source,
+// calibration and profiles live in the GazeProvider; this component drives and displays them.
+export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmarker }) => {
+    const {
+        videoSource, setVideoSource,
+        calibration: calibrationData, setCalibration: setCalibrationData, saveCalibration,
+        isCalibrating, setIsCalibrating, calibrationRun, startCalibration,
+        calibrationProfile: activeProfileName, profiles, selectProfile, createProfile, deleteProfile, importProfile,
+        highSensitivity, setHighSensitivity, screenGeometry, blinkDetector,
+        publishGaze: onGazeUpdate,
+    } = useGazeSession();
+    const sourceRunning = videoSource !== null;
     const [calibrationStep, setCalibrationStep] = useState<CalibrationStep>('idle');
-    const [calibrationData, setCalibrationData] = useState<CalibrationData | null>(null);
+    const [featureSet, setFeatureSet] = useState<GazeFeatureSet>(
+        () => findFeatureSet(calibrationData?.mapper?.featureLayout ?? []) ?? DEFAULT_FEATURE_SET
+    );
+    const [isRecording, setIsRecording] = useState(false);
+    const [filterSettings, setFilterSettings] = useState<GazeFilterSettings>(DEFAULT_FILTER_SETTINGS);
+    const [mapperKind, setMapperKind] = useState<GazeMapperKind>(calibrationData?.mapper?.kind ?? DEFAULT_GAZE_MAPPER);
+    const [validationIndex, setValidationIndex] = useState(0);
+    const [calibrationPattern, setCalibrationPattern] = useState<CalibrationPattern>(DEFAULT_CALIBRATION_PATTERN);
+    const [calibrationTargets, setCalibrationTargets] = useState<CalibrationTarget[]>([]);
+    const [targetIndex, setTargetIndex] = useState(0);
+    const [pursuitProgress, setPursuitProgress] = useState(0); // Sweep progress on the frame clock
+    const [implicitRecalibration, setImplicitRecalibration] = useState(false);
+    const [dominantEye, setDominantEye] = useState<DominantEye>('none');
+    const [headPoseHints, setHeadPoseHints] = useState<string[]>([]);
 
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
+    const videoFileInputRef = useRef<HTMLInputElement>(null);
     const lastVideoFrameRef = useRef(-1);
     const calibrationSamples = useRef<CalibrationSample[]>([]);
     const isProcessingSamples = useRef(false);
+    const pursuitStartRef = useRef<number | null>(null);
+    const headPoseSamples = useRef<HeadPoseSample[]>([]);
+    const validationSamples = useRef<GazePoint[]>([]);
+    const validationResults = useRef<ValidationPointResult[]>([]);
     const predictCallbackRef = useRef<(now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => void>();
+    const gazeEstimatorRef = useRef(new GazeEstimator());
+    const recorderRef = useRef(new SessionRecorder());
+    const recalibratorRef = useRef(new ImplicitRecalibrator());
+    const headPoseMonitorRef = useRef(new HeadPoseMonitor());
+    const mediaClockRef = useRef(new MediaClock());
+    const lastGazePointRef = useRef<GazePoint | null>(null);
+
+    // Filters are tunable at runtime; the estimator swaps them in before the next frame.
+    useEffect(() => {
+        gazeEstimatorRef.current.setFilterSettings(filterSettings);
+    }, [filterSettings]);
 
 
     // --- Calibration State Machine ---
@@ -124,158 +168,266 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
 
         let timeoutId: number;
 
-        const advanceState = (nextStep: CalibrationStep, delay: number) => {
-            timeoutId = window.setTimeout(() => {
-                calibrationSamples.current = []; // Reset samples for next collection
-                isProcessingSamples.current = false;
-                setCalibrationStep(nextStep);
-            }, delay);
-        };
-
         switch (calibrationStep) {
-            case 'awaiting_top_center': advanceState('collecting_top_center', AWAIT_TIME); break;
-            case 'awaiting_top_right': advanceState('collecting_top_right', AWAIT_TIME); break;
-            case 'awaiting_middle_right': advanceState('collecting_middle_right', AWAIT_TIME); break;
-            case 'awaiting_bottom_right': advanceState('collecting_bottom_right', AWAIT_TIME); break;
-            case 'awaiting_bottom_center': advanceState('collecting_bottom_center', AWAIT_TIME); break;
-            case 'awaiting_bottom_left': advanceState('collecting_bottom_left', AWAIT_TIME); break;
-            case 'awaiting_middle_left': advanceState('collecting_middle_left', AWAIT_TIME); break;
-            case 'awaiting_top_left': advanceState('collecting_top_left', AWAIT_TIME); break;
+            case 'awaiting': {
+                const headPosition = calibrationTargets[targetIndex]?.headPosition;
+                const movesHead = !!headPosition && (targetIndex === 0 || calibrationTargets[targetIndex - 1]?.headPosition !== headPosition);
+                timeoutId = window.setTimeout(() => {
+                    calibrationSamples.current = []; // Reset samples for next collection
+                    isProcessingSamples.current = false;
+                    pursuitStartRef.current = null;
+                    setPursuitProgress(0);
+                    setCalibrationStep(calibrationPattern.mode === 'pursuit' ? 'pursuit' : 'collecting');
+                }, movesHead ? AWAIT_TIME + HEAD_MOVE_TIME : AWAIT_TIME);
+                break;
+            }
+            case 'validation_awaiting':
+                timeoutId = window.setTimeout(() => {
+                    validationSamples.current = [];
+                    setCalibrationStep('validation_collecting');
+                }, AWAIT_TIME / 2);
+                break;
         }
 
         return () => clearTimeout(timeoutId);
-    }, [calibrationStep, isCalibrating]);
+    }, [calibrationStep, isCalibrating, calibrationPattern.mode, calibrationTargets, targetIndex]);
 
 
-    const handleStartCalibration = () => {
+    // The sequence of targets is generated from the pattern settings at the start of every run.
+    const beginCalibrationRun = () => {
         calibrationSamples.current = [];
-        setCalibrationData({ points: {} });
-        setCalibrationStep('collecting_center');
+        headPoseSamples.current = [];
+        // Samples are collected with the new run's compensation, since the estimator reads it from the calibration.
+        const { headCompensation } = calibrationPattern;
+        setCalibrationData({ points: {}, headCompensation });
+        if (headCompensation === 'learned' && (mapperKind !== 'ridge' || !usesHeadPose(FEATURE_SET_LAYOUTS[featureSet]))) {
+            // Without head-pose inputs the model would have nothing to compensate with.
+            setMapperKind('ridge');
+            setFeatureSet(LEARNED_HEAD_COMPENSATION_FEATURE_SET);
+        }
+        // A pursuit run has a single target: where the moving marker starts.
+        setCalibrationTargets(calibrationPattern.mode === 'pursuit'
+            ? [{ id: 'pursuit_start', label: 'starting', position: pursuitPosition(calibrationPattern.pursuit.path, 0, calibrationPattern.margin) }]
+            : buildCalibrationTargets(calibrationPattern));
+        setTargetIndex(0);
+        setCalibrationStep('awaiting');
     };
 
-    const handleResetCalibration = () => {
-        handleStartCalibration(); // Just restart the process
+    // Runs are requested through the provider, so useCalibration().startCalibration works from anywhere.
+    const beginCalibrationRunRef = useRef(beginCalibrationRun);
+    beginCalibrationRunRef.current = beginCalibrationRun;
+    const handledCalibrationRun = useRef(calibrationRun);
+    useEffect(() => {
+        if (calibrationRun === handledCalibrationRun.current) return;
+        handledCalibrationRun.current = calibrationRun;
+        beginCalibrationRunRef.current();
+    }, [calibrationRun]);
+
+    // --- Validation ---
+    // Shows a fresh set of targets and measures how far the trained model's gaze lands from them.
+    const handleStartValidation = () => {
+        validationResults.current = [];
+        setValidationIndex(0);
+        setCalibrationStep('validation_awaiting');
     };
-    
-    const processCollectedSamples = useCallback((step: CalibrationStep) => {
-        if (calibrationSamples.current.length < CALIBRATION_FRAMES / 2) return; // Need a minimum number of samples
-        
-        isProcessingSamples.current = true;
 
-        // --- Z-Score Outlier Rejection ---
-        const stats = {
-            vec_R_x: getStats(calibrationSamples.current.map(s => s.vec_R.x)),
-            vec_R_y: getStats(calibrationSamples.current.map(s => s.vec_R.y)),
-            vec_L_x: getStats(calibrationSamples.current.map(s => s.vec_L.x)),
-            vec_L_y: getStats(calibrationSamples.current.map(s => s.vec_L.y)),
-        };
+    const handleValidationSample = useCallback((point: GazePoint) => {
+        if (calibrationStep !== 'validation_collecting' || validationSamples.current.length >= VALIDATION_FRAMES) return;
+        validationSamples.current.push(point);
+        if (validationSamples.current.length < VALIDATION_FRAMES) return;
 
-        const filteredSamples = calibrationSamples.current.filter(s => 
-            Math.abs((s.vec_R.x - stats.vec_R_x.mean) / (stats.vec_R_x.stdDev + 1e-6)) < Z_SCORE_THRESHOLD &&
-            Math.abs((s.vec_R.y - stats.vec_R_y.mean) / (stats.vec_R_y.stdDev + 1e-6)) < Z_SCORE_THRESHOLD &&
-            Math.abs((s.vec_L.x - stats.vec_L_x.mean) / (stats.vec_L_x.stdDev + 1e-6)) < Z_SCORE_THRESHOLD &&
-            Math.abs((s.vec_L.y - stats.vec_L_y.mean) / (stats.vec_L_y.stdDev + 1e-6)) < Z_SCORE_THRESHOLD
+        const screen = { width: window.innerWidth, height: window.innerHeight };
+        validationResults.current.push(
+            summarizeValidationPoint(VALIDATION_TARGETS[validationIndex], validationSamples.current, screen, screenGeometry)
         );
+        if (validationIndex + 1 < VALIDATION_TARGETS.length) {
+            setValidationIndex(validationIndex + 1);
+            setCalibrationStep('validation_awaiting');
+            return;
+        }
 
-        const samplesToUse = filteredSamples.length > 10 ? filteredSamples : calibrationSamples.current; // Use original if filtering is too aggressive
-        
-        const avg = samplesToUse.reduce((acc, s) => {
-            acc.x_R += s.vec_R.x;
-            acc.y_R += s.vec_R.y;
-            acc.x_L += s.vec_L.x;
-            acc.y_L += s.vec_L.y;
-            return acc;
-        }, { x_R: 0, y_R: 0, x_L: 0, y_L: 0 });
-
-        const numSamples = samplesToUse.length;
-        const avgVec_R: GazeVector = { x: avg.x_R / numSamples, y: avg.y_R / numSamples };
-        const avgVec_L: GazeVector = { x: avg.x_L / numSamples, y: avg.y_L / numSamples };
+        if (calibrationData) {
+            saveCalibration({ ...calibrationData, validation: summarizeValidation(validationResults.current, screen) });
+        }
+        setCalibrationStep('validation_done');
+    }, [calibrationStep, validationIndex, screenGeometry, calibrationData, saveCalibration]);
+    
+    // Final step of either mode: fit the selected gaze mapper to the collected points and save it.
+    const completeCalibration = useCallback((collected: CalibrationData) => {
+        setCalibrationData(collected);
+        const mapper = fitCalibrationMapper(collected.points, mapperKind, featureSet);
+        if (mapper) {
+            saveCalibration({
+                ...collected,
+                mapper,
+                eyeMappers: fitEyeMappers(collected.points, mapperKind, featureSet),
+                headPoseReference: buildHeadPoseReference(headPoseSamples.current),
+            });
+        }
+        setCalibrationStep('done');
+    }, [saveCalibration, featureSet, mapperKind]);
+
+    const processCollectedSamples = useCallback(() => {
+        const target = calibrationTargets[targetIndex];
+        if (!target || calibrationSamples.current.length < CALIBRATION_FRAMES / 2) return; // Need a minimum number of samples
         
-        const avgGaze: GazeVector = {
-            x: (avgVec_R.x + avgVec_L.x) / 2,
-            y: (avgVec_R.y + avgVec_L.y) / 2,
-        };
+        // Each eye is averaged on its own, so a squinting or covered eye doesn't block calibration.
+        const gaze = combineEyeAverages(
+            averageOpenEye(calibrationSamples.current, 'right'),
+            averageOpenEye(calibrationSamples.current, 'left'),
+        );
+        if (!gaze) return;
+
+        isProcessingSamples.current = true;
+
+        const avgHeadPose = averageHeadPoses(
+            calibrationSamples.current.map(s => s.headPose).filter((p): p is HeadPose => !!p)
+        );
         
-        const newPointData: CalibrationPointData = { avgGaze };
+        const newPointData: CalibrationPointData = { ...gaze, avgHeadPose, target: target.position };
 
         const updatedCalibrationData = {
             ...calibrationData,
             points: {
                 ...calibrationData?.points,
-                [step]: newPointData,
+                [target.id]: newPointData,
             }
         };
         
         setCalibrationData(updatedCalibrationData as CalibrationData);
 
         // --- State Transitions ---
-        const transitionMap: Partial<Record<CalibrationStep, CalibrationStep>> = {
-            'collecting_center': 'awaiting_top_center',
-            'collecting_top_center': 'awaiting_top_right',
-            'collecting_top_right': 'awaiting_middle_right',
-            'collecting_middle_right': 'awaiting_bottom_right',
-            'collecting_bottom_right': 'awaiting_bottom_center',
-            'collecting_bottom_center': 'awaiting_bottom_left',
-            'collecting_bottom_left': 'awaiting_middle_left',
-            'collecting_middle_left': 'awaiting_top_left',
-        };
-
-        if (step === 'collecting_top_left') {
-             // --- Final step: Train regression model ---
-            const trainingData = Object.entries(updatedCalibrationData.points)
-                // FIX: Add type annotation for 'data' to resolve type inference issue with Object.entries.
-                .map(([stepName, data]: [string, CalibrationPointData | undefined]) => {
-                    const screenPos = SCREEN_POSITION_MAP[stepName as keyof typeof SCREEN_POSITION_MAP];
-                    if (data && screenPos) {
-                        return {
-                            features: [1, data.avgGaze.x, data.avgGaze.y],
-                            target: screenPos,
-                        };
-                    }
-                    return null;
-                })
-                .filter((item): item is NonNullable<typeof item> => !!item);
-
-            // We need at least as many data points as features for a valid regression.
-            if (trainingData.length >= 3) {
-                const X = trainingData.map(d => d.features);
-                const y_u = trainingData.map(d => d.target.u);
-                const y_v = trainingData.map(d => d.target.v);
-                
-                const lambda = 0.01; // Regularization strength
-                const coeffs_u = ridgeRegression(X, y_u, lambda);
-                const coeffs_v = ridgeRegression(X, y_v, lambda);
-
-                if (coeffs_u && coeffs_v) {
-                    setCalibrationData(prev => ({
-                        ...(prev as CalibrationData),
-                        regressionCoeffs: { u: coeffs_u, v: coeffs_v }
-                    }));
-                }
-            }
-            setCalibrationStep('done');
+        if (targetIndex === calibrationTargets.length - 1) {
+            completeCalibration(updatedCalibrationData as CalibrationData);
         } else {
-            const nextStep = transitionMap[step];
-            if (nextStep) {
-                setCalibrationStep(nextStep);
-            }
+            setTargetIndex(targetIndex + 1);
+            setCalibrationStep('awaiting');
         }
-    }, [calibrationData]);
+    }, [calibrationData, calibrationTargets, targetIndex, completeCalibration]);
+
+    // --- Smooth Pursuit ---
+    // Called on every frame of the sweep; the first frame fixes the start time that target
+    // positions are computed from, and the sweep ends once the delayed target has finished its path.
+    // The marker is drawn from the same frame timestamps, so it pauses with a paused video file.
+    const handlePursuitFrame = useCallback((timestamp: number) => {
+        if (pursuitStartRef.current === null) pursuitStartRef.current = timestamp;
+        const { pursuit, margin } = calibrationPattern;
+        setPursuitProgress(Math.min((timestamp - pursuitStartRef.current) / pursuit.durationMs, 1));
+        if (isProcessingSamples.current || timestamp - pursuitStartRef.current < pursuit.durationMs + pursuit.latencyMs) return;
+
+        isProcessingSamples.current = true;
+        const points = buildPursuitTrainingPoints(calibrationSamples.current, pursuitStartRef.current, pursuit, margin);
+        completeCalibration({ points, headCompensation: calibrationPattern.headCompensation });
+    }, [calibrationPattern, completeCalibration]);
+
+    // --- Gaze Mapping Settings ---
+    // Refit the active profile from its stored points whenever the mapping settings change.
+    const refitCalibration = (kind: GazeMapperKind, set: GazeFeatureSet) => {
+        if (!calibrationData || isCalibrating) return;
+        const mapper = fitCalibrationMapper(calibrationData.points, kind, set);
+        if (!mapper) return;
+        // A validation report describes the previous model, so it no longer applies.
+        saveCalibration({
+            ...calibrationData,
+            mapper,
+            eyeMappers: fitEyeMappers(calibrationData.points, kind, set),
+            validation: undefined,
+            implicitCorrection: undefined,
+        });
+    };
+
+    const handleMapperKindChange = (kind: GazeMapperKind) => {
+        setMapperKind(kind);
+        refitCalibration(kind, featureSet);
+    };
+
+    const handleFeatureSetChange = (set: GazeFeatureSet) => {
+        setFeatureSet(set);
+        refitCalibration(mapperKind, set);
+    };
+
+    // --- Implicit Recalibration ---
+    // Clicks were paired with the previous model's output, so they are dropped whenever it changes.
+    useEffect(() => {
+        recalibratorRef.current.reset();
+    }, [calibrationData?.mapper]);
+
+    useEffect(() => {
+        if (!implicitRecalibration || isCalibrating || !sourceRunning) return;
+        const handlePointerDown = (e: PointerEvent) => {
+            // Synthetic clicks, such as dwell clicks, land wherever the gaze already was and teach nothing.
+            if (!e.isTrusted) return;
+            const correction = recalibratorRef.current.addClick(
+                { u: e.clientX / window.innerWidth, v: e.clientY / window.innerHeight },
+                e.timeStamp
+            );
+            if (correction) {
+                setCalibrationData(data => data?.mapper ? { ...data, implicitCorrection: correction } : data);
+            }
+        };
+        window.addEventListener('pointerdown', handlePointerDown);
+        return () => window.removeEventListener('pointerdown', handlePointerDown);
+    }, [implicitRecalibration, isCalibrating, sourceRunning]);
+
+    const handleRevertImplicitCorrection = () => {
+        recalibratorRef.current.reset();
+        setCalibrationData(data => data && { ...data, implicitCorrection: undefined });
+    };
+
+    const mapperBenchmark = useMemo(() => {
+        if (!calibrationData) return null;
+        const trainingData = getTrainingPoints(calibrationData.points);
+        if (trainingData.length < 3) return null;
+        return benchmarkGazeMappers(FEATURE_SET_LAYOUTS[featureSet], trainingData, trainingData.map(d => d.target));
+    }, [calibrationData?.points, featureSet]);
+
+    // Keep the mapping controls in sync with whichever model is loaded, e.g. from another profile.
+    useEffect(() => {
+        const mapper = calibrationData?.mapper;
+        if (!mapper) return;
+        setMapperKind(mapper.kind);
+        setFeatureSet(current => findFeatureSet(mapper.featureLayout) ?? current);
+    }, [calibrationData?.mapper]);
+
+    // --- Calibration Profiles ---
+    const handleExportProfile = () => {
+        if (!calibrationData) return;
+        const saved = loadCalibrationProfile(activeProfileName);
+        downloadCalibrationProfile(saved ?? {
+            name: activeProfileName,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            data: calibrationData,
+        });
+    };
 
     const handleCalibrationSample = useCallback((sample: CalibrationSample) => {
-        if (calibrationStep.startsWith('collecting_') && calibrationSamples.current.length < CALIBRATION_FRAMES) {
+        if (calibrationStep === 'pursuit') {
+            if (calibrationSamples.current.length < MAX_PURSUIT_SAMPLES) calibrationSamples.current.push(sample);
+            return;
+        }
+        if (calibrationStep === 'collecting' && calibrationSamples.current.length < CALIBRATION_FRAMES) {
             calibrationSamples.current.push(sample);
             // If we just reached the required number of samples, process them.
             if (calibrationSamples.current.length === CALIBRATION_FRAMES && !isProcessingSamples.current) {
-                processCollectedSamples(calibrationStep);
+                processCollectedSamples();
             }
         }
     }, [calibrationStep, processCollectedSamples]);
 
+    const discardCalibrationSamplesSince = useCallback((cutoff: number) => {
+        calibrationSamples.current = calibrationSamples.current.filter(s => s.timestamp < cutoff);
+    }, []);
+
+    // Called every frame, so React state only changes when the advice does.
+    const updateHeadPoseHints = useCallback((hints: string[]) => {
+        setHeadPoseHints(current => current.join('|') === hints.join('|') ? current : hints);
+    }, []);
+
     // This effect updates the prediction logic that the loop will call.
     useEffect(() => {
         predictCallbackRef.current = (now, metadata) => {
-            if (!webcamRunning || !videoRef.current || !canvasRef.current || !faceLandmarker) return;
+            if (!sourceRunning || !videoRef.current || !canvasRef.current || !faceLandmarker) return;
 
             const video = videoRef.current;
             const canvas = canvasRef.current;
@@ -293,15 +445,16 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
               canvas.height = video.videoHeight;
             }
             
+            // detectForVideo needs monotonically increasing timestamps, so it always gets the callback time.
             const results = faceLandmarker.detectForVideo(video, now);
+            // Video files report the exact media time of each frame, mapped onto the performance.now()
+            // clock so it keeps increasing across seeks; for the webcam, prefer the capture time so
+            // filters see the real spacing between frames.
+            const frameTimestamp = videoSource === 'file'
+                ? mediaClockRef.current.toTimestamp(metadata.mediaTime, now)
+                : (metadata.captureTime ?? now);
             
             if (ctx) {
-                const calibrationState: CalibrationState = {
-                    step: isCalibrating ? calibrationStep : 'idle',
-                    data: calibrationData,
-                    onCalibrationSample: isCalibrating ? handleCalibrationSample : undefined
-                };
-                
                 ctx.clearRect(0, 0, canvas.width, canvas.height);
                 const landmarks = results.faceLandmarks?.[0];
                 const transformationMatrix = results.facialTransformationMatrixes?.[0];
@@ -331,37 +484,114 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
                     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
                 }
                 
+                if (isCalibrating && calibrationStep === 'pursuit') {
+                    handlePursuitFrame(frameTimestamp);
+                }
+
+                let gazeEstimate: GazeEstimate | null = null;
                 if (landmarks) {
-                    const drawingUtils = new DrawingUtils(ctx);
-                    const normalizedGazePoint = drawLandmarks(
-                        ctx, 
-                        drawingUtils, 
-                        landmarks, 
-                        {
-                            calibrationState,
-                            transformationMatrix,
-                            drawTesselation: false,
-                            highSensitivity
+                    const blendshapes = results.faceBlendshapes?.[0] ? toBlendshapeScores(results.faceBlendshapes[0]) : undefined;
+                    const blinkState = blinkDetector.update({
+                        landmarks,
+                        blendshapes,
+                        width: canvas.width,
+                        height: canvas.height,
+                        timestamp: frameTimestamp,
+                    });
+
+                    gazeEstimate = gazeEstimatorRef.current.estimate({
+                        landmarks,
+                        transformationMatrix,
+                        width: canvas.width,
+                        height: canvas.height,
+                        timestamp: frameTimestamp,
+                        calibration: calibrationData,
+                        highSensitivity,
+                        // With one eye closed, eye weighting drops it and tracking continues on the other.
+                        holdGaze: blinkState.bothEyesClosed,
+                        eyeAspectRatios: { right: blinkState.rightEye.aspectRatio, left: blinkState.leftEye.aspectRatio },
+                        dominantEye,
+                    });
+
+                    // During calibration, collect samples of the fully corrected gaze vectors,
+                    // skipping blinks along with the lid movement just before and after them.
+                    if (gazeEstimate && isCalibrating && (calibrationStep === 'collecting' || calibrationStep === 'pursuit')) {
+                        if (blinkState.closedSince !== null) {
+                            discardCalibrationSamplesSince(blinkState.closedSince - BLINK_GUARD_MS);
+                        } else if (blinkState.lastReopenedAt === null || frameTimestamp - blinkState.lastReopenedAt > BLINK_GUARD_MS) {
+                            handleCalibrationSample({
+                                vec_R: gazeEstimate.rightEye.rawVector,
+                                vec_L: gazeEstimate.leftEye.rawVector,
+                                eyesOpen: { right: !blinkState.rightEye.closed, left: !blinkState.leftEye.closed },
+                                headPose: gazeEstimate.headPose ?? undefined,
+                                timestamp: frameTimestamp,
+                            });
+                            if (gazeEstimate.headPose) {
+                                headPoseSamples.current.push({ headPose: gazeEstimate.headPose, faceBox: measureFaceBox(landmarks) });
+                            }
                         }
-                    );
+                    }
+
+                    // --- Head Pose Drift ---
+                    // The guide is drawn in frame coordinates, so it sits where the face was during calibration.
+                    const headPoseReference = calibrationData?.headPoseReference;
+                    const headCheck = headPoseReference && gazeEstimate?.headPose
+                        ? headPoseMonitorRef.current.update(headPoseReference, gazeEstimate.headPose)
+                        : null;
+                    const headOutOfRange = !!headCheck && !headCheck.withinTolerance;
+                    if (headOutOfRange && headPoseReference) drawHeadGuide(ctx, headPoseReference.faceBox);
+                    updateHeadPoseHints(headCheck?.hints ?? []);
+
+                    if (implicitRecalibration && !headOutOfRange && gazeEstimate?.calibratedPoint && !gazeEstimate.held) {
+                        // Click events are stamped on the performance.now() clock, so the history is too.
+                        recalibratorRef.current.addGaze(gazeEstimate.calibratedPoint, performance.now());
+                    }
+
+                    const drawingUtils = new DrawingUtils(ctx);
+                    drawLandmarks(ctx, drawingUtils, landmarks, { gazeEstimate, drawTesselation: false });
                     
-                    if (normalizedGazePoint) {
+                    if (gazeEstimate) {
                         gazePointForUpdate = {
-                            x: normalizedGazePoint.u * window.innerWidth,
-                            y: normalizedGazePoint.v * window.innerHeight
+                            x: gazeEstimate.point.u * window.innerWidth,
+                            y: gazeEstimate.point.v * window.innerHeight,
+                            timestamp: frameTimestamp,
+                            ...assessGazeQuality({
+                                estimate: gazeEstimate,
+                                eyesOpen: { right: !blinkState.rightEye.closed, left: !blinkState.leftEye.closed },
+                                outsideCalibratedRange: headOutOfRange,
+                            }),
+                            ...(blendshapes && { blendshapes }),
+                            eyeVectors: { right: gazeEstimate.rightEye.vector, left: gazeEstimate.leftEye.vector },
+                            ...(gazeEstimate.headPose && { headPose: gazeEstimate.headPose }),
                         };
+                        if (!gazeEstimate.held && calibrationStep === 'validation_collecting') {
+                            handleValidationSample(gazePointForUpdate);
+                        }
                     }
+                } else {
+                    // If no face is detected, reset the smoothing, blink and drift state.
+                    gazeEstimatorRef.current.reset();
+                    blinkDetector.reset();
+                    headPoseMonitorRef.current.reset();
+                    updateHeadPoseHints([]);
                 }
 
                 ctx.restore();
+                // Without an estimate, report the loss at the last known position instead of going silent.
+                if (gazePointForUpdate) {
+                    lastGazePointRef.current = gazePointForUpdate;
+                } else if (lastGazePointRef.current) {
+                    gazePointForUpdate = markFaceLost(lastGazePointRef.current, frameTimestamp);
+                }
+                recorderRef.current.addFrame(frameTimestamp, results.faceLandmarks ?? [], results.facialTransformationMatrixes ?? [], gazeEstimate, gazePointForUpdate);
                 onGazeUpdate(gazePointForUpdate);
             }
         };
-    }, [webcamRunning, faceLandmarker, isCalibrating, calibrationStep, calibrationData, onGazeUpdate, handleCalibrationSample, highSensitivity]);
+    }, [sourceRunning, videoSource, faceLandmarker, isCalibrating, calibrationStep, calibrationData, onGazeUpdate, handleCalibrationSample, handlePursuitFrame, discardCalibrationSamplesSince, handleValidationSample, highSensitivity, dominantEye, blinkDetector, implicitRecalibration, updateHeadPoseHints]);
 
     // This effect manages the video callback loop.
     useEffect(() => {
-        if (!webcamRunning || !videoRef.current) return;
+        if (!sourceRunning || !videoRef.current) return;
         
         const video = videoRef.current;
         let handle: number;
@@ -380,20 +610,75 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
             }
             lastVideoFrameRef.current = -1; // Reset frame count
         };
-    }, [webcamRunning]);
+    }, [sourceRunning]);
+
+    // --- Session Recording ---
+    useEffect(() => {
+        recorderRef.current.updateCalibration(calibrationData);
+    }, [calibrationData]);
+
+    const stopRecording = async () => {
+        const recording = recorderRef.current.stop();
+        setIsRecording(false);
+        if (!recording || recording.frames.length === 0) return;
+        try {
+            const blob = await encodeRecording(recording);
+            const stamp = new Date(recording.createdAt).toISOString().replace(/[:.]/g, '-');
+            downloadBlob(blob, `gaze-session-${stamp}${RECORDING_FILE_EXTENSION}`);
+        } catch (e) {
+            console.error("Failed to save recording:", e);
+        }
+    };
+
+    const toggleRecording = () => {
+        if (isRecording) {
+            stopRecording();
+            return;
+        }
+        const video = videoRef.current;
+        if (!sourceRunning || !video) return;
+        recorderRef.current.start({
+            frameWidth: video.videoWidth,
+            frameHeight: video.videoHeight,
+            calibration: calibrationData,
+            filterSettings,
+            highSensitivity,
+            dominantEye,
+        });
+        setIsRecording(true);
+    };
+
+    // Stops whichever source is running and releases its resources.
+    const stopSource = () => {
+        if (isRecording) stopRecording();
+        setVideoSource(null);
+        onGazeUpdate(null);
+        lastGazePointRef.current = null;
+        setIsCalibrating(false); // Also exit calibration mode
+        gazeEstimatorRef.current.reset();
+        blinkDetector.reset();
+        headPoseMonitorRef.current.reset();
+        setHeadPoseHints([]);
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.srcObject) {
+            const stream = video.srcObject as MediaStream;
+            stream.getTracks().forEach(track => track.stop());
+            video.srcObject = null;
+        }
+        if (video.src) {
+            video.pause();
+            URL.revokeObjectURL(video.src);
+            video.removeAttribute('src');
+            video.load();
+        }
+    };
 
     const enableCam = async () => {
         if (!faceLandmarker || !navigator.mediaDevices) return;
         
-        if (webcamRunning) {
-            setWebcamRunning(false);
-            onGazeUpdate(null);
-            setIsCalibrating(false); // Also exit calibration mode
-            if (videoRef.current?.srcObject) {
-                const stream = videoRef.current.srcObject as MediaStream;
-                stream.getTracks().forEach(track => track.stop());
-                videoRef.current.srcObject = null;
-            }
+        if (sourceRunning) {
+            stopSource();
         } else {
             try {
                 const stream = await navigator.mediaDevices.getUserMedia({
@@ -405,14 +690,47 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
                 if (videoRef.current) {
                     videoRef.current.srcObject = stream;
                     videoRef.current.addEventListener("loadeddata", () => {
-                        setWebcamRunning(true);
-                    });
+                        setVideoSource('webcam');
+                    }, { once: true });
                 }
             } catch (err) {
                 console.error("Error accessing webcam:", err);
             }
         }
     };
+
+    // Uses a local video file as the frame source, going through the same frame callback loop.
+    const openVideoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        const video = videoRef.current;
+        if (!file || !video || !faceLandmarker) return;
+        if (sourceRunning) stopSource();
+
+        video.srcObject = null;
+        video.muted = true;
+        video.src = URL.createObjectURL(file);
+        mediaClockRef.current.reset();
+        video.addEventListener("loadeddata", () => {
+            setVideoSource('file');
+        }, { once: true });
+    };
+
+    // Jumping around in a file breaks the continuity the filters rely on. The clock restarts at
+    // the current time, and a null sample ends any fixation or dwell that spanned the jump.
+    useEffect(() => {
+        const video = videoRef.current;
+        if (videoSource !== 'file' || !video) return;
+        const handleSeeking = () => {
+            mediaClockRef.current.reset();
+            gazeEstimatorRef.current.reset();
+            blinkDetector.reset();
+            lastGazePointRef.current = null;
+            onGazeUpdate(null);
+        };
+        video.addEventListener('seeking', handleSeeking);
+        return () => video.removeEventListener('seeking', handleSeeking);
+    }, [videoSource, blinkDetector, onGazeUpdate]);
     
     // Cleanup on unmount
     useEffect(() => {
@@ -421,6 +739,9 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
                 const stream = videoRef.current.srcObject as MediaStream;
                 stream.getTracks().forEach(track => track.stop());
             }
+            if (videoRef.current?.src) {
+                URL.revokeObjectURL(videoRef.current.src);
+            }
         }
     }, [])
 
@@ -430,7 +751,7 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
             : "bg-gray-800 rounded-xl p-4 sm:p-6 space-y-4 flex flex-col"
         }>
             {!isCalibrating && (
-                 <h2 className="text-2xl font-bold text-center text-white">Webcam Feed</h2>
+                 <h2 className="text-2xl font-bold text-center text-white">{videoSource === 'file' ? 'Video File' : 'Webcam Feed'}</h2>
             )}
            
             <div className={isCalibrating ? 'relative w-full h-full flex items-center justify-center' : 'relative'}>
@@ -442,61 +763,153 @@ export const WebcamLandmarker: React.FC<WebcamLandmarkerProps> = ({ faceLandmark
                         : 'rounded-lg w-full h-auto aspect-video bg-black'
                     }
                 ></canvas>
+                {headPoseHints.length > 0 && (
+                    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-30 pointer-events-none bg-gray-900/80 text-amber-300 text-sm rounded-lg px-4 py-2 text-center" role="status">
+                        {headPoseHints.join(' · ')}
+                    </div>
+                )}
                 {isCalibrating && (
                     <CalibrationDisplay
                         step={calibrationStep}
-                        progress={calibrationStep.startsWith('collecting_') ? calibrationSamples.current.length / CALIBRATION_FRAMES : 0}
-                        onStart={handleStartCalibration}
-                        onReset={handleResetCalibration}
+                        progress={calibrationStep === 'collecting'
+                            ? calibrationSamples.current.length / CALIBRATION_FRAMES
+                            : calibrationStep === 'validation_collecting' ? validationSamples.current.length / VALIDATION_FRAMES : 0}
+                        onStart={startCalibration}
+                        onReset={startCalibration}
                         onFinish={() => setIsCalibrating(false)}
+                        cvError={calibrationData?.mapper?.cvError ?? null}
+                        onValidate={calibrationData?.mapper ? handleStartValidation : undefined}
+                        target={calibrationTargets[targetIndex] ?? null}
+                        pursuit={calibrationPattern.mode === 'pursuit' ? { settings: calibrationPattern.pursuit, margin: calibrationPattern.margin, progress: pursuitProgress } : null}
+                        targetIndex={targetIndex}
+                        targetCount={calibrationTargets.length}
+                        validationIndex={validationIndex}
+                        validation={calibrationData?.validation ?? null}
                     />
                 )}
             </div>
 
             {!isCalibrating && (
                 <>
+                    {videoSource === 'file' && videoRef.current && (
+                        <VideoPlaybackControls video={videoRef.current} />
+                    )}
+
                     <div className="flex flex-col sm:flex-row gap-4">
                         <button
                             onClick={enableCam}
-                            className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 ${
-                                webcamRunning 
+                            disabled={videoSource === 'file'}
+                            className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed ${
+                                sourceRunning 
                                     ? 'bg-red-600 hover:bg-red-700' 
                                     : 'bg-blue-600 hover:bg-blue-700'
                             }`}
                         >
-                            {webcamRunning ? 'DISABLE WEBCAM' : 'ENABLE WEBCAM'}
+                            {sourceRunning ? 'DISABLE WEBCAM' : 'ENABLE WEBCAM'}
+                        </button>
+                        <button
+                            onClick={() => videoSource === 'file' ? stopSource() : videoFileInputRef.current?.click()}
+                            disabled={videoSource === 'webcam'}
+                            className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed ${
+                                videoSource === 'file'
+                                    ? 'bg-red-600 hover:bg-red-700'
+                                    : 'bg-gray-600 hover:bg-gray-700'
+                            }`}
+                        >
+                            {videoSource === 'file' ? 'CLOSE VIDEO' : 'OPEN VIDEO FILE'}
                         </button>
+                        <input ref={videoFileInputRef} type="file" accept="video/mp4,video/webm" className="hidden" onChange={openVideoFile} />
                         <button
                             onClick={() => {
-                                if (!webcamRunning) return;
+                                if (!sourceRunning) return;
                                 setIsCalibrating(true);
                                 setCalibrationStep('idle'); // Reset status when entering calibration
                             }}
-                            disabled={!webcamRunning}
+                            disabled={!sourceRunning}
+                            data-gaze-target=""
                             className={'w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed'}
                         >
                             CALIBRATE GAZE
                         </button>
                     </div>
+
+                    <button
+                        onClick={toggleRecording}
+                        disabled={!sourceRunning}
+                        className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-colors duration-200 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed ${
+                            isRecording ? 'bg-red-600 hover:bg-red-700 animate-pulse' : 'bg-gray-600 hover:bg-gray-700'
+                        }`}
+                    >
+                        {isRecording ? 'STOP & SAVE RECORDING' : 'RECORD SESSION'}
+                    </button>
                     
                     <div className="pt-4 mt-4 border-t border-gray-700">
-                        <label htmlFor="highSensitivityToggle" className={`flex items-center justify-center ${webcamRunning ? 'cursor-pointer' : 'cursor-not-allowed'}`}>
+                        <label htmlFor="highSensitivityToggle" className={`flex items-center justify-center ${sourceRunning ? 'cursor-pointer' : 'cursor-not-allowed'}`}>
                             <input
                                 type="checkbox"
                                 id="highSensitivityToggle"
                                 className="w-4 h-4 text-cyan-600 bg-gray-700 border-gray-600 rounded focus:ring-cyan-500 focus:ring-offset-gray-800 disabled:opacity-50"
                                 checked={highSensitivity}
                                 onChange={(e) => setHighSensitivity(e.target.checked)}
-                                disabled={!webcamRunning}
+                                disabled={!sourceRunning}
                                 aria-describedby="sensitivity-description"
                             />
-                            <span className={`ml-3 text-sm font-medium ${!webcamRunning ? 'text-gray-500' : 'text-gray-300'}`}>
+                            <span className={`ml-3 text-sm font-medium ${!sourceRunning ? 'text-gray-500' : 'text-gray-300'}`}>
                                 High Sensitivity Mode
                                 <p id="sensitivity-description" className="text-xs font-normal text-gray-400">Increases sensitivity for limited eye movement.</p>
                             </span>
                         </label>
                     </div>
 
+                    <div className="flex items-center justify-between gap-4">
+                        <label htmlFor="dominantEyeSelect" className="text-sm font-medium text-gray-300">
+                            Dominant Eye
+                            <p className="text-xs font-normal text-gray-400">Tracks only this eye while it is open and steady.</p>
+                        </label>
+                        <select
+                            id="dominantEyeSelect"
+                            value={dominantEye}
+                            onChange={(e) => setDominantEye(e.target.value as DominantEye)}
+                            className="bg-gray-700 border border-gray-600 text-gray-100 text-sm rounded-lg p-2"
+                        >
+                            {(Object.keys(DOMINANT_EYE_LABELS) as DominantEye[]).map(eye => (
+                                <option key={eye} value={eye}>{DOMINANT_EYE_LABELS[eye]}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <ImplicitRecalibrationSettings
+                        enabled={implicitRecalibration}
+                        onEnabledChange={setImplicitRecalibration}
+                        isCalibrated={!!calibrationData?.mapper}
+                        correction={calibrationData?.implicitCorrection ?? null}
+                        onRevert={handleRevertImplicitCorrection}
+                    />
+
+                    <FilterSettings settings={filterSettings} onChange={setFilterSettings} />
+
+                    <CalibrationPatternSettings settings={calibrationPattern} onChange={setCalibrationPattern} />
+
+                    <CalibrationModelSettings
+                        featureSet={featureSet}
+                        onFeatureSetChange={handleFeatureSetChange}
+                        mapperKind={mapperKind}
+                        onMapperKindChange={handleMapperKindChange}
+                        benchmark={mapperBenchmark}
+                        learnedHeadCompensation={calibrationData?.headCompensation === 'learned'}
+                    />
+
+                    <CalibrationProfiles
+                        profiles={profiles}
+                        activeProfileName={activeProfileName}
+                        isCalibrated={!!calibrationData?.mapper}
+                        onSelect={selectProfile}
+                        onCreate={createProfile}
+                        onDelete={deleteProfile}
+                        onExport={handleExportProfile}
+                        onImport={importProfile}
+                    />
+
                     <div className="flex-grow" />
                 </>
             )}
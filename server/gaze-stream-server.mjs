@@ -0,0 +1,146 @@
+// Reference receiver for the gaze streaming protocol (see README.md, "Streaming gaze").
+// Logs every message it receives and echoes it back to the sender. Dependency-free: it
+// implements just enough of RFC 6455 for unfragmented text frames, ping and close.
+//
+//   node server/gaze-stream-server.mjs [port]      (default 8765)
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8765);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1 << 20;
+// Gaze samples arrive at frame rate, so only every Nth one is printed.
+const GAZE_LOG_INTERVAL = 30;
+
+const OPCODES = { text: 0x1, close: 0x8, ping: 0x9, pong: 0xa };
+
+const encodeFrame = (opcode, payload) => {
+    const length = payload.length;
+    const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+    header[0] = 0x80 | opcode; // FIN + opcode; server frames are never masked
+    if (length < 126) {
+        header[1] = length;
+    } else if (length < 65536) {
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+// Returns the first complete frame in the buffer, or null if more bytes are needed.
+const decodeFrame = (buffer) => {
+    if (buffer.length < 2) return null;
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+        if (buffer.length < 4) return null;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+    } else if (length === 127) {
+        if (buffer.length < 10) return null;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+    }
+    if (length > MAX_PAYLOAD) throw new Error(`Frame of ${length} bytes exceeds the ${MAX_PAYLOAD} byte limit.`);
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return null;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+        for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    return { fin, opcode, payload, size: offset + length };
+};
+
+const describe = (message) => {
+    switch (message.type) {
+        case 'hello':
+            return `hello protocol=${message.protocol} viewport=${message.viewport?.width}x${message.viewport?.height} dropped=${message.droppedMessages}`;
+        case 'gaze':
+            return `gaze (${Math.round(message.x)}, ${Math.round(message.y)}) confidence=${message.confidence?.toFixed(2)}`;
+        case 'event':
+            return `event ${message.event?.type} duration=${Math.round(message.event?.duration ?? 0)}ms`;
+        case 'calibration':
+            return `calibration calibrating=${message.calibrating} calibrated=${message.calibrated} mapper=${message.mapper}`;
+        default:
+            return `unknown message type "${message.type}"`;
+    }
+};
+
+let nextClientId = 1;
+
+const server = createServer((req, res) => {
+    res.writeHead(426, { 'Content-Type': 'text/plain' });
+    res.end('This endpoint only accepts WebSocket connections.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+
+    const id = nextClientId++;
+    let pending = Buffer.alloc(0);
+    let gazeCount = 0;
+    console.log(`[${id}] connected from ${req.socket.remoteAddress}`);
+
+    const handleText = (text) => {
+        let message;
+        try {
+            message = JSON.parse(text);
+        } catch {
+            console.error(`[${id}] invalid JSON: ${text.slice(0, 80)}`);
+            return;
+        }
+        if (message.type !== 'gaze' || gazeCount++ % GAZE_LOG_INTERVAL === 0) {
+            console.log(`[${id}] ${describe(message)}`);
+        }
+        socket.write(encodeFrame(OPCODES.text, Buffer.from(text)));
+    };
+
+    socket.on('data', (chunk) => {
+        pending = Buffer.concat([pending, chunk]);
+        try {
+            let frame;
+            while ((frame = decodeFrame(pending))) {
+                pending = pending.subarray(frame.size);
+                if (!frame.fin) throw new Error('Fragmented frames are not supported.');
+                if (frame.opcode === OPCODES.text) {
+                    handleText(frame.payload.toString('utf8'));
+                } else if (frame.opcode === OPCODES.ping) {
+                    socket.write(encodeFrame(OPCODES.pong, frame.payload));
+                } else if (frame.opcode === OPCODES.close) {
+                    socket.end(encodeFrame(OPCODES.close, frame.payload.subarray(0, 2)));
+                    return;
+                }
+            }
+        } catch (e) {
+            console.error(`[${id}] ${e.message}`);
+            socket.destroy();
+        }
+    });
+    socket.on('close', () => console.log(`[${id}] disconnected after ${gazeCount} gaze samples`));
+    socket.on('error', (e) => console.error(`[${id}] socket error: ${e.message}`));
+});
+
+server.listen(PORT, () => {
+    console.log(`Gaze stream server listening on ws://localhost:${PORT}`);
+});
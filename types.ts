@@ -10,28 +10,60 @@ export interface NormalizedLandmark {
 export interface FaceLandmarkerResult {
   faceLandmarks: NormalizedLandmark[][];
   facialTransformationMatrixes: {data: number[]}[];
+  faceBlendshapes?: { categories: { categoryName: string; score: number }[] }[];
 }
 
+// Phases of the calibration flow. Which target is shown during 'awaiting' and 'collecting'
+// comes from the generated target list, not from the step itself. 'pursuit' is the moving-target
+// sweep of smooth-pursuit calibration.
 export type CalibrationStep =
     | 'idle'
-    | 'collecting_center'
-    | 'awaiting_top_center'
-    | 'collecting_top_center'
-    | 'awaiting_top_right'
-    | 'collecting_top_right'
-    | 'awaiting_middle_right'
-    | 'collecting_middle_right'
-    | 'awaiting_bottom_right'
-    | 'collecting_bottom_right'
-    | 'awaiting_bottom_center'
-    | 'collecting_bottom_center'
-    | 'awaiting_bottom_left'
-    | 'collecting_bottom_left'
-    | 'awaiting_middle_left'
-    | 'collecting_middle_left'
-    | 'awaiting_top_left'
-    | 'collecting_top_left'
-    | 'done';
+    | 'awaiting'
+    | 'collecting'
+    | 'pursuit'
+    | 'done'
+    | 'validation_awaiting'
+    | 'validation_collecting'
+    | 'validation_done';
+
+// --- Calibration Patterns ---
+
+export type CalibrationPatternPreset = '5' | '9' | '13' | '16';
+
+export type CalibrationMode = 'points' | 'pursuit';
+
+// 'fixed' applies hand-tuned pitch and translation corrections to the gaze vectors; 'learned' leaves
+// them in head space and lets a head-pose feature set fit the compensation from calibration data.
+export type HeadCompensation = 'fixed' | 'learned';
+
+// Where the user holds their head while a block of fixed-point targets is shown.
+export type HeadPosition = 'center' | 'closer' | 'farther' | 'left' | 'right';
+
+export type PursuitPath = 'lissajous' | 'spiral';
+
+export interface PursuitSettings {
+    path: PursuitPath;
+    durationMs: number;
+    latencyMs: number; // How far gaze trails the moving target; samples are paired with the target this long before
+}
+
+export interface CalibrationPattern {
+    mode: CalibrationMode;
+    pursuit: PursuitSettings; // Used when mode is 'pursuit'
+    preset: CalibrationPatternPreset | 'custom';
+    customPoints: NormalizedGazePoint[]; // Used when preset is 'custom'
+    randomOrder: boolean;
+    margin: number; // Fraction of the screen kept clear on every edge, 0 to 0.25; applies to both modes
+    headCompensation: HeadCompensation;
+    headPositions: HeadPosition[]; // Fixed-point targets are repeated from each position, in this order
+}
+
+export interface CalibrationTarget {
+    id: string;    // Key of the collected point in CalibrationData.points
+    label: string; // Shown to the user, e.g. 'top-left'
+    position: NormalizedGazePoint; // Where the marker is drawn, margin already applied
+    headPosition?: HeadPosition; // Set when the run asks for more than one head position
+}
 
 export interface GazeVector {
     x: number;
@@ -40,17 +72,145 @@ export interface GazeVector {
 
 export interface CalibrationPointData {
     avgGaze: GazeVector;
-    // avgTranslation is no longer needed as parallax is corrected geometrically.
+    avgGazeRight?: GazeVector; // Per-eye averages; absent in profiles saved before per-eye models
+    avgGazeLeft?: GazeVector;
+    avgHeadPose?: HeadPose; // Only needed by feature layouts with head-pose terms
+    target?: NormalizedGazePoint; // Screen position of the marker; absent in profiles saved before patterns were configurable
 }
 
+export type GazeFeatureSet = 'linear' | 'quadratic' | 'quadratic_head_pose' | 'head_pose_full';
+
 export interface RegressionCoefficients {
     u: number[]; // Coefficients for predicting u
     v: number[]; // Coefficients for predicting v
+    featureLayout: string[]; // Feature names, in coefficient order
+    featureMeans: number[];  // Per-feature standardization applied before the dot product
+    featureScales: number[];
+    lambda: number;          // Regularization strength chosen by cross-validation
+    cvError: number | null;  // Leave-one-point-out RMS error in normalized screen units
+}
+
+export type GazeMapperKind = 'ridge' | 'thin_plate_spline' | 'knn' | 'gaussian_process';
+
+// Fields shared by every serialised gaze mapper.
+interface GazeMapperModelBase {
+    featureLayout: string[]; // Names of the inputs the mapper consumes
+    cvError: number | null;  // Leave-one-point-out RMS error in normalized screen units
+}
+
+// Standardization of the raw gaze inputs used by the non-parametric mappers.
+export interface InputStandardization {
+    means: number[];
+    scales: number[];
+}
+
+export interface RidgeMapperModel extends GazeMapperModelBase {
+    kind: 'ridge';
+    coefficients: RegressionCoefficients;
+}
+
+export interface ThinPlateSplineMapperModel extends GazeMapperModelBase {
+    kind: 'thin_plate_spline';
+    standardization: InputStandardization;
+    centers: number[][];
+    weightsU: number[]; // One weight per center, followed by the affine terms [1, x, y]
+    weightsV: number[];
+    smoothing: number;
+}
+
+export interface KnnMapperModel extends GazeMapperModelBase {
+    kind: 'knn';
+    standardization: InputStandardization;
+    inputs: number[][];
+    targets: NormalizedGazePoint[];
+    k: number;
+    power: number; // Inverse-distance weighting exponent
+}
+
+export interface GaussianProcessMapperModel extends GazeMapperModelBase {
+    kind: 'gaussian_process';
+    standardization: InputStandardization;
+    inputs: number[][];
+    alphaU: number[]; // (K + σ²I)⁻¹ (y - mean), precomputed for prediction
+    alphaV: number[];
+    meanU: number;
+    meanV: number;
+    lengthScale: number;
+    signalVariance: number;
+    noiseVariance: number;
+}
+
+export type GazeMapperModel = RidgeMapperModel | ThinPlateSplineMapperModel | KnnMapperModel | GaussianProcessMapperModel;
+
+// Accuracy is the mean offset of gaze samples from the target; precision is the RMS of
+// sample-to-sample distances. Degrees are visual angle at the configured viewing distance.
+export interface ValidationMetrics {
+    accuracyPx: number;
+    accuracyDeg: number;
+    precisionPx: number;
+    precisionDeg: number;
+}
+
+export interface ValidationPointResult extends ValidationMetrics {
+    target: NormalizedGazePoint;
+    sampleCount: number;
+}
+
+export interface CalibrationValidation extends ValidationMetrics {
+    createdAt: number;
+    screenWidth: number;  // Viewport size the pixel figures refer to
+    screenHeight: number;
+    points: ValidationPointResult[];
+}
+
+// Affine correction learned from user clicks and applied on top of the explicit calibration's
+// output: u' = u[0]·u + u[1]·v + u[2], v' = v[0]·u + v[1]·v + v[2].
+export interface ImplicitCorrection {
+    u: number[];
+    v: number[];
+    clickCount: number; // Clicks the correction was fitted to
+    drift: number;      // Largest shift it applies anywhere on screen, in normalized screen units
+}
+
+// Face bounds in the camera image, normalized to the frame: center and size.
+export interface FaceBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// The head poses seen while calibrating. The model is only trusted near this range.
+export interface HeadPoseReference {
+    mean: HeadPose;
+    min: HeadPose; // Per-component extremes, so a multi-position calibration covers all of its positions
+    max: HeadPose;
+    faceBox: FaceBox; // Average face bounds, drawn as a guide when the user drifts away
 }
 
 export interface CalibrationData {
     points: Partial<Record<string, CalibrationPointData>>;
-    regressionCoeffs?: RegressionCoefficients;
+    mapper?: GazeMapperModel;
+    eyeMappers?: Record<EyeSide, GazeMapperModel>; // One model per eye, fitted alongside the binocular one
+    validation?: CalibrationValidation; // Result of the most recent validation run for this model
+    implicitCorrection?: ImplicitCorrection; // Session-only; saved profiles always hold the explicit calibration
+    headCompensation?: HeadCompensation; // How the gaze vectors behind this model were computed; absent means 'fixed'
+    headPoseReference?: HeadPoseReference; // Absent in profiles saved before head drift was tracked
+}
+
+export interface CalibrationProfile {
+    name: string;
+    createdAt: number; // Epoch milliseconds
+    updatedAt: number;
+    data: CalibrationData;
+}
+
+// The on-disk format used for exporting and importing calibration profiles.
+export interface CalibrationFile {
+    format: 'react-eye-tracker/calibration';
+    version: number;
+    featureLayout: string[]; // Names of the regression features, in coefficient order
+    profile: CalibrationProfile;
 }
 
 export interface TranslationVector {
@@ -59,24 +219,257 @@ export interface TranslationVector {
     z: number;
 }
 
+export interface HeadPose {
+    translation: TranslationVector;
+    yaw: number;   // Degrees
+    pitch: number; // Degrees
+    roll: number;  // Degrees
+}
+
 export interface CalibrationSample {
     vec_R: GazeVector;
     vec_L: GazeVector;
-    // translation is now handled geometrically before sampling.
+    headPose?: HeadPose;
+    eyesOpen: Record<EyeSide, boolean>; // A closed eye's vector is left out of that eye's average
+    timestamp: number; // Frame timestamp in milliseconds, used to drop samples around blinks
 }
 
-export interface CalibrationState {
-    step: CalibrationStep;
-    data: CalibrationData | null;
-    onCalibrationSample?: (sample: CalibrationSample) => void;
+export type GazeFilterKind = 'none' | 'ema' | 'one_euro' | 'kalman';
+
+// Where in the pipeline smoothing is applied: the per-eye gaze vectors, the mapped screen point, or both.
+export type GazeFilterTarget = 'vectors' | 'screen' | 'both';
+
+export interface GazeFilterSettings {
+    kind: GazeFilterKind;
+    target: GazeFilterTarget;
+    ema: { alpha: number };                                     // Weight of the newest sample at 30fps
+    oneEuro: { minCutoff: number; beta: number; dCutoff: number }; // Cutoffs in Hz
+    kalman: { processNoise: number; measurementNoise: number };
+}
+
+export type VideoSourceKind = 'webcam' | 'file';
+
+// Expression coefficients keyed by MediaPipe category name (e.g. eyeBlinkLeft, jawOpen), each in [0, 1].
+export type BlendshapeScores = Record<string, number>;
+
+// Data-quality flags carried by every gaze sample, derived from signals the pipeline already has.
+export interface GazeQualityFlags {
+    faceLost: boolean;        // No face this frame; x/y repeat the last known position
+    blink: boolean;           // Eyes closed; x/y are held from before the blink
+    extremeHeadPose: boolean; // Head turned too far to track well, or outside the calibrated range
+    offScreen: boolean;       // The estimate lies clearly outside the screen
+    clamped: boolean;         // x/y were clamped to the screen edge
+}
+
+export interface GazeEyeValidity {
+    right: boolean; // Eye open and its iris found
+    left: boolean;
 }
 
 export interface GazePoint {
     x: number;
     y: number;
+    timestamp: number; // Frame timestamp in milliseconds (performance.now() clock; video files map their media time onto it)
+    confidence: number; // 0 (unusable) to 1, lowered by each quality flag
+    eyes: GazeEyeValidity;
+    flags: GazeQualityFlags;
+    blendshapes?: BlendshapeScores; // Present when blendshape output is enabled
+    eyeVectors?: Record<EyeSide, GazeVector>; // Filtered per-eye gaze vectors; absent without a face
+    headPose?: HeadPose;
+}
+
+// --- Fixation / Saccade Events ---
+
+export type GazeEventAlgorithm = 'ivt' | 'idt';
+
+export type GazeThresholdUnit = 'pixels' | 'degrees';
+
+export interface GazeEventThresholds {
+    algorithm: GazeEventAlgorithm;
+    unit: GazeThresholdUnit;     // Unit for the thresholds below and for reported dispersion/amplitude
+    velocityThreshold: number;   // I-VT: unit per second
+    dispersionThreshold: number; // I-DT: max horizontal + vertical extent, in unit
+    minFixationDuration: number; // Milliseconds
+}
+
+// Needed to convert between screen pixels and degrees of visual angle.
+export interface ScreenGeometry {
+    pixelsPerCm: number;
+    viewingDistanceCm: number;
+}
+
+export interface FixationEvent {
+    type: 'fixationStart' | 'fixationEnd';
+    timestamp: number;
+    startTime: number;
+    duration: number;   // Milliseconds; at fixationStart this is the duration so far
+    centroid: { x: number; y: number }; // Screen pixels
+    dispersion: number; // In the configured threshold unit
+    sampleCount: number;
+    algorithm: GazeEventAlgorithm;
 }
 
+export interface SaccadeEvent {
+    type: 'saccade';
+    timestamp: number;
+    startTime: number;
+    duration: number;
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+    amplitude: number;       // In the configured threshold unit
+    averageVelocity: number; // Unit per second
+    algorithm: GazeEventAlgorithm;
+}
+
+export type GazeEvent = FixationEvent | SaccadeEvent;
+
+// --- Blinks ---
+
+export type EyeSide = 'right' | 'left';
+
+// With a dominant eye set, that eye alone is tracked whenever it is reliable.
+export type DominantEye = EyeSide | 'none';
+
+export interface BlinkEvent {
+    type: 'blink' | 'wink'; // A wink closes only one eye
+    eye: EyeSide | 'both';
+    timestamp: number; // When the eyes reopened
+    startTime: number;
+    duration: number;  // Milliseconds
+}
+
+// Everything delivered to gaze event subscribers.
+export type GazeStreamEvent = GazeEvent | BlinkEvent;
+
 export interface NormalizedGazePoint {
     u: number; // Represents x-coordinate, from 0.0 (left) to 1.0 (right)
     v: number; // Represents y-coordinate, from 0.0 (top) to 1.0 (bottom)
-}
\ No newline at end of file
+}
+
+// --- Dwell Click ---
+
+export interface DwellClickSettings {
+    enabled: boolean;
+    paused: boolean;     // Global pause toggle; keeps settings but stops dwelling
+    dwellTime: number;   // Milliseconds of steady gaze before a click
+    cooldown: number;    // Milliseconds after a click during which nothing can be dwelled
+    hysteresis: number;  // Pixels the gaze may stray outside the current target without losing it
+    gracePeriod: number; // Milliseconds the gaze may leave the target before progress resets
+}
+
+// --- Streaming ---
+
+export interface GazeStreamingSettings {
+    enabled: boolean;
+    url: string; // ws:// or wss:// endpoint
+}
+
+// --- Session Recording ---
+
+export interface RecordedGaze {
+    vec_R: GazeVector; // Filtered per-eye vectors, as drawn on the frame
+    vec_L: GazeVector;
+    combined: GazeVector;
+}
+
+// The gaze point the tracker emitted, normalized to the viewport it was emitted for.
+export interface RecordedGazePoint {
+    u: number;
+    v: number;
+    confidence: number;
+    eyes: GazeEyeValidity;
+    flags: GazeQualityFlags;
+}
+
+export interface RecordedFrame {
+    timestamp: number; // Milliseconds since the recording started
+    faceLandmarks: number[][]; // Per face, quantized landmarks flattened as [x, y, z, x, y, z, ...]
+    facialTransformationMatrixes: number[][];
+    // What the tracker output for this frame; absent in older recordings.
+    gaze?: RecordedGaze | null;
+    point?: RecordedGazePoint | null; // Also set when the face was lost, at the last known position
+}
+
+export interface GazeRecording {
+    format: 'react-eye-tracker/recording';
+    version: number;
+    createdAt: number; // Epoch milliseconds
+    frameWidth: number;
+    frameHeight: number;
+    landmarkScale: number; // Landmarks are stored as Math.round(value * landmarkScale)
+    calibration: CalibrationData | null;
+    filterSettings: GazeFilterSettings;
+    highSensitivity: boolean;
+    dominantEye?: DominantEye; // Absent in older recordings, which replay as 'none'
+    frames: RecordedFrame[];
+}
+
+// --- Areas of Interest ---
+
+// Regions declared in normalized viewport coordinates; DOM elements are declared with the
+// data-gaze-aoi attribute or a ref instead.
+export type AoiRegion =
+    | { kind: 'rect'; name: string; u: number; v: number; width: number; height: number }
+    | { kind: 'polygon'; name: string; points: NormalizedGazePoint[] };
+
+export interface AoiMetrics {
+    name: string;
+    timeToFirstFixation: number | null; // Milliseconds from the start of measuring to the first fixation inside
+    dwellTime: number;      // Milliseconds of gaze samples inside
+    fixationCount: number;
+    visitCount: number;     // Runs of consecutive fixations inside
+    revisitCount: number;   // Visits after the first
+}
+
+// --- Session Log ---
+
+export interface GazeSessionMetadata {
+    viewportWidth: number; // CSS pixels that sample x/y refer to
+    viewportHeight: number;
+    devicePixelRatio: number;
+    screenGeometry: ScreenGeometry;
+    calibrationProfile: string | null;
+    mapper: GazeMapperKind | null;
+    featureLayout: string[] | null;
+    validation: ValidationMetrics | null;
+    highSensitivity: boolean;
+    eventThresholds: GazeEventThresholds;
+}
+
+export interface LoggedGazeSample {
+    timestamp: number; // Milliseconds since the first logged sample or event
+    x: number;
+    y: number;
+    u: number; // x/y normalized to the viewport
+    v: number;
+    confidence: number;
+    eyes: GazeEyeValidity;
+    flags: GazeQualityFlags;
+    aois: string[]; // Names of the areas of interest the sample falls in
+    rightEyeVector: GazeVector | null;
+    leftEyeVector: GazeVector | null;
+    headPose: HeadPose | null;
+}
+
+export interface GazeSessionLog {
+    format: 'react-eye-tracker/gaze-log';
+    version: number;
+    startedAt: number; // Epoch milliseconds when logging started
+    endedAt: number | null;
+    metadata: GazeSessionMetadata;
+    samples: LoggedGazeSample[];
+    events: GazeStreamEvent[]; // Times rebased like the samples'
+    aoiMetrics?: AoiMetrics[]; // Added on export
+}
+
+// --- Attention Map ---
+
+export type AttentionMapMode = 'heatmap' | 'scanpath';
+
+export interface AttentionMapSettings {
+    mode: AttentionMapMode;
+    radius: number;             // CSS pixels the heatmap kernel reaches
+    opacity: number;            // 0..1
+    windowStart: number;        // Milliseconds into the session log
+    windowEnd: number | null;   // null follows the end of the log
+}
@@ -0,0 +1,221 @@
+import type { AoiMetrics, AoiRegion, FixationEvent, GazePoint, NormalizedGazePoint } from '../types';
+import { parsePointList } from './calibrationPatterns';
+import { isUsableGazeSample } from './gazeQuality';
+
+// Elements become areas of interest with this attribute; its value names the area.
+export const AOI_ATTRIBUTE = 'data-gaze-aoi';
+
+const REGIONS_STORAGE_KEY = 'react-eye-tracker:aoi-regions';
+
+// Dwell time credited for one sample is the time since the previous one, up to this cap,
+// so gaps in tracking don't count as looking.
+const MAX_SAMPLE_INTERVAL = 100;
+
+// --- Geometry ---
+
+// Even-odd ray casting; points on an edge may land either side.
+const isInsidePolygon = (p: NormalizedGazePoint, polygon: NormalizedGazePoint[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        if ((a.v > p.v) !== (b.v > p.v) && p.u < (b.u - a.u) * (p.v - a.v) / (b.v - a.v) + a.u) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+export const isInsideRegion = (p: NormalizedGazePoint, region: AoiRegion) => {
+    if (region.kind === 'rect') {
+        return p.u >= region.u && p.u <= region.u + region.width && p.v >= region.v && p.v <= region.v + region.height;
+    }
+    return isInsidePolygon(p, region.points);
+};
+
+const isInsideElement = (x: number, y: number, element: Element) => {
+    const rect = element.getBoundingClientRect();
+    return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+};
+
+// --- Region Definitions ---
+
+// Rectangles are "left, top, width, height"; polygons are one "u, v" vertex per line.
+export const parseAoiRegion = (name: string, kind: AoiRegion['kind'], text: string): AoiRegion => {
+    const trimmedName = name.trim();
+    if (!trimmedName) throw new Error('Give the area a name.');
+    if (kind === 'polygon') {
+        const points = parsePointList(text);
+        if (points.length < 3) throw new Error('A polygon needs at least 3 vertices.');
+        return { kind, name: trimmedName, points };
+    }
+    const parts = text.trim().split(/[\s,;]+/).map(Number);
+    if (parts.length !== 4 || !parts.every(n => Number.isFinite(n) && n >= 0 && n <= 1)) {
+        throw new Error('Enter four numbers between 0 and 1: left, top, width, height.');
+    }
+    const [u, v, width, height] = parts;
+    if (width <= 0 || height <= 0 || u + width > 1 || v + height > 1) {
+        throw new Error('The rectangle must have a size and stay within the screen.');
+    }
+    return { kind, name: trimmedName, u, v, width, height };
+};
+
+const isAoiRegion = (value: unknown): value is AoiRegion => {
+    const region = value as AoiRegion | null;
+    if (!region || typeof region.name !== 'string') return false;
+    if (region.kind === 'rect') return [region.u, region.v, region.width, region.height].every(Number.isFinite);
+    return region.kind === 'polygon' && Array.isArray(region.points) && region.points.length >= 3
+        && region.points.every(p => Number.isFinite(p?.u) && Number.isFinite(p?.v));
+};
+
+export const loadAoiRegions = (): AoiRegion[] => {
+    try {
+        const raw = window.localStorage.getItem(REGIONS_STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter(isAoiRegion) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveAoiRegions = (regions: AoiRegion[]) => {
+    try {
+        window.localStorage.setItem(REGIONS_STORAGE_KEY, JSON.stringify(regions));
+    } catch (e) {
+        console.error("Failed to save areas of interest:", e);
+    }
+};
+
+// --- Tracking ---
+
+const emptyMetrics = (name: string): AoiMetrics => ({
+    name,
+    timeToFirstFixation: null,
+    dwellTime: 0,
+    fixationCount: 0,
+    visitCount: 0,
+    revisitCount: 0,
+});
+
+/**
+ * Attributes gaze samples and fixations to areas of interest as they arrive. Areas are matched
+ * by name, so a region and any number of elements can make up one area. Metrics cover the time
+ * since the last reset() and are kept for every area that has been seen, even once it's gone.
+ */
+export class AoiTracker {
+    private regions: AoiRegion[] = [];
+    private elements = new Map<Element, string>();
+    private metrics = new Map<string, AoiMetrics>();
+    private startTime: number | null = null;
+    private previousSampleTime: number | null = null;
+    private previousFixationAois: string[] = [];
+    private paused = false;
+    // Hit tests are cached per point, so several consumers of one sample share the work.
+    private lastHit: { point: GazePoint; aois: string[] } | null = null;
+
+    getRegions() {
+        return this.regions;
+    }
+
+    setRegions(regions: AoiRegion[]) {
+        this.regions = regions;
+        this.lastHit = null;
+    }
+
+    // Returns a function that removes the element again.
+    registerElement(name: string, element: Element) {
+        this.elements.set(element, name);
+        this.lastHit = null;
+        return () => { this.elements.delete(element); };
+    }
+
+    // While paused, e.g. during calibration, samples and fixations are ignored.
+    setPaused(paused: boolean) {
+        this.paused = paused;
+        this.previousSampleTime = null;
+    }
+
+    reset() {
+        this.metrics.clear();
+        this.startTime = null;
+        this.previousSampleTime = null;
+        this.previousFixationAois = [];
+    }
+
+    // Names of every area containing a screen position in CSS pixels.
+    hitTestPosition(x: number, y: number): string[] {
+        const names = new Set<string>();
+        const p = { u: x / window.innerWidth, v: y / window.innerHeight };
+        for (const region of this.regions) {
+            if (isInsideRegion(p, region)) names.add(region.name);
+        }
+        this.elements.forEach((name, element) => {
+            if (element.isConnected && isInsideElement(x, y, element)) names.add(name);
+        });
+        document.querySelectorAll(`[${AOI_ATTRIBUTE}]`).forEach(element => {
+            const name = element.getAttribute(AOI_ATTRIBUTE);
+            if (name && isInsideElement(x, y, element)) names.add(name);
+        });
+        return Array.from(names);
+    }
+
+    hitTest(point: GazePoint): string[] {
+        if (this.lastHit?.point !== point) {
+            this.lastHit = { point, aois: this.hitTestPosition(point.x, point.y) };
+        }
+        return this.lastHit.aois;
+    }
+
+    // A null point, e.g. when the source stops or a video seeks, breaks the run like an unusable sample.
+    addSample(point: GazePoint | null) {
+        if (this.paused) return;
+        if (!point || !isUsableGazeSample(point)) {
+            this.previousSampleTime = null;
+            return;
+        }
+        this.startTime ??= point.timestamp;
+        const previous = this.previousSampleTime;
+        const interval = previous !== null ? Math.min(MAX_SAMPLE_INTERVAL, Math.max(0, point.timestamp - previous)) : 0;
+        this.hitTest(point).forEach(name => { this.getMetrics(name).dwellTime += interval; });
+        this.previousSampleTime = point.timestamp;
+    }
+
+    // Fixations are attributed by their centroid when they start.
+    addFixation(fixation: FixationEvent) {
+        if (this.paused || fixation.type !== 'fixationStart') return;
+        this.startTime ??= fixation.startTime;
+        const aois = this.hitTestPosition(fixation.centroid.x, fixation.centroid.y);
+        aois.forEach(name => {
+            const metrics = this.getMetrics(name);
+            metrics.fixationCount++;
+            metrics.timeToFirstFixation ??= Math.max(0, fixation.startTime - this.startTime!);
+            if (!this.previousFixationAois.includes(name)) {
+                metrics.visitCount++;
+                metrics.revisitCount = metrics.visitCount - 1;
+            }
+        });
+        this.previousFixationAois = aois;
+    }
+
+    // Every area that is declared or has been looked at, sorted by name.
+    getAllMetrics(): AoiMetrics[] {
+        this.regions.forEach(region => this.getMetrics(region.name));
+        this.elements.forEach(name => this.getMetrics(name));
+        document.querySelectorAll(`[${AOI_ATTRIBUTE}]`).forEach(element => {
+            const name = element.getAttribute(AOI_ATTRIBUTE);
+            if (name) this.getMetrics(name);
+        });
+        return Array.from(this.metrics.values())
+            .map(m => ({ ...m }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private getMetrics(name: string) {
+        let metrics = this.metrics.get(name);
+        if (!metrics) {
+            metrics = emptyMetrics(name);
+            this.metrics.set(name, metrics);
+        }
+        return metrics;
+    }
+}
@@ -0,0 +1,206 @@
+import type { AttentionMapSettings, GazeSessionLog, NormalizedGazePoint } from '../types';
+import { isUsableGazeSample } from './gazeQuality';
+
+export const DEFAULT_ATTENTION_MAP_SETTINGS: AttentionMapSettings = {
+    mode: 'heatmap',
+    radius: 40,
+    opacity: 0.6,
+    windowStart: 0,
+    windowEnd: null,
+};
+
+// The density grid is coarser than the screen and scaled up when drawn. Its cells grow with the
+// radius so the kernel always spans about the same number of cells, whatever the log length.
+const KERNEL_CELLS = 8;
+const MIN_CELL_SIZE = 2;
+// Cells below this fraction of the peak are left transparent rather than tinting the whole page.
+const MIN_VISIBLE_DENSITY = 0.02;
+
+const TRANSPARENT = 'rgba(0, 0, 0, 0)';
+const FALLBACK_BACKGROUND = '#111827';
+
+// Cold to hot, as [position, r, g, b, a].
+const HEATMAP_STOPS: [number, number, number, number, number][] = [
+    [0, 0, 0, 255, 0],
+    [0.25, 0, 200, 255, 160],
+    [0.5, 0, 255, 80, 200],
+    [0.75, 255, 230, 0, 230],
+    [1, 255, 40, 0, 255],
+];
+
+export interface ScanpathFixation {
+    u: number; // Centroid normalized to the logging viewport
+    v: number;
+    startTime: number;
+    duration: number;
+}
+
+export interface AttentionMapData {
+    samples: NormalizedGazePoint[];
+    fixations: ScanpathFixation[];
+}
+
+// Milliseconds from the start of the log to its last sample or event.
+export const sessionLogDuration = (log: GazeSessionLog) => log.events.reduce(
+    (latest, e) => Math.max(latest, e.timestamp),
+    log.samples.length ? log.samples[log.samples.length - 1].timestamp : 0,
+);
+
+/**
+ * Usable samples and completed fixations that start inside the time window. Positions are
+ * normalized, so a log drawn after the window was resized still lines up with the page.
+ */
+export const selectAttentionData = (log: GazeSessionLog, windowStart: number, windowEnd: number | null): AttentionMapData => {
+    const end = windowEnd ?? Infinity;
+    const inWindow = (time: number) => time >= windowStart && time <= end;
+    const { viewportWidth, viewportHeight } = log.metadata;
+    return {
+        samples: log.samples
+            .filter(s => inWindow(s.timestamp) && isUsableGazeSample(s))
+            .map(s => ({ u: s.u, v: s.v })),
+        fixations: log.events.flatMap(e => e.type === 'fixationEnd' && inWindow(e.startTime)
+            ? [{ u: e.centroid.x / viewportWidth, v: e.centroid.y / viewportHeight, startTime: e.startTime, duration: e.duration }]
+            : [])
+            .sort((a, b) => a.startTime - b.startTime),
+    };
+};
+
+// --- Heatmap ---
+
+const heatmapColor = (t: number, out: Uint8ClampedArray, offset: number) => {
+    let i = 1;
+    while (i < HEATMAP_STOPS.length - 1 && t > HEATMAP_STOPS[i][0]) i++;
+    const [p0, ...c0] = HEATMAP_STOPS[i - 1];
+    const [p1, ...c1] = HEATMAP_STOPS[i];
+    const f = Math.min(1, Math.max(0, (t - p0) / (p1 - p0)));
+    for (let k = 0; k < 4; k++) out[offset + k] = c0[k] + (c1[k] - c0[k]) * f;
+};
+
+/**
+ * Sums a Gaussian kernel at every sample and colors the result relative to its peak. The kernel is
+ * cut off at `radius`, which is three standard deviations.
+ */
+export const drawHeatmap = (ctx: CanvasRenderingContext2D, width: number, height: number, samples: NormalizedGazePoint[], radius: number) => {
+    if (samples.length === 0) return;
+    const cellSize = Math.max(MIN_CELL_SIZE, radius / KERNEL_CELLS);
+    const cols = Math.ceil(width / cellSize);
+    const rows = Math.ceil(height / cellSize);
+    const reach = Math.ceil(radius / cellSize);
+    const sigma = radius / 3 / cellSize;
+
+    const kernelSize = 2 * reach + 1;
+    const kernel = new Float32Array(kernelSize * kernelSize);
+    for (let dy = -reach; dy <= reach; dy++) {
+        for (let dx = -reach; dx <= reach; dx++) {
+            kernel[(dy + reach) * kernelSize + dx + reach] = Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma));
+        }
+    }
+
+    const density = new Float32Array(cols * rows);
+    for (const { u, v } of samples) {
+        const cx = Math.floor(u * width / cellSize);
+        const cy = Math.floor(v * height / cellSize);
+        for (let dy = -reach; dy <= reach; dy++) {
+            const y = cy + dy;
+            if (y < 0 || y >= rows) continue;
+            for (let dx = -reach; dx <= reach; dx++) {
+                const x = cx + dx;
+                if (x < 0 || x >= cols) continue;
+                density[y * cols + x] += kernel[(dy + reach) * kernelSize + dx + reach];
+            }
+        }
+    }
+
+    let peak = 0;
+    for (let i = 0; i < density.length; i++) peak = Math.max(peak, density[i]);
+    if (peak === 0) return;
+
+    const image = new ImageData(cols, rows);
+    for (let i = 0; i < density.length; i++) {
+        const t = density[i] / peak;
+        if (t >= MIN_VISIBLE_DENSITY) heatmapColor(t, image.data, i * 4);
+    }
+    const grid = document.createElement('canvas');
+    grid.width = cols;
+    grid.height = rows;
+    grid.getContext('2d')!.putImageData(image, 0, 0);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(grid, 0, 0, cols * cellSize, rows * cellSize);
+    ctx.restore();
+};
+
+// --- Scanpath ---
+
+// Circle area grows with fixation duration.
+const fixationRadius = (duration: number) => Math.min(40, 6 + 4 * Math.sqrt(duration / 100));
+
+// Fixations as numbered circles in order, joined by the saccades between them.
+export const drawScanpath = (ctx: CanvasRenderingContext2D, width: number, height: number, fixations: ScanpathFixation[]) => {
+    if (fixations.length === 0) return;
+    const points = fixations.map(f => ({ x: f.u * width, y: f.v * height, r: fixationRadius(f.duration) }));
+
+    ctx.save();
+    ctx.beginPath();
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.strokeStyle = "rgba(34, 211, 238, 0.9)"; // Cyan
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.font = "bold 12px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    points.forEach((p, i) => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, p.r, 0, 2 * Math.PI);
+        ctx.fillStyle = "rgba(250, 204, 21, 0.75)"; // Amber
+        ctx.fill();
+        ctx.strokeStyle = "rgba(17, 24, 39, 0.9)";
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        ctx.fillStyle = "#111827";
+        ctx.fillText(String(i + 1), p.x, p.y);
+    });
+    ctx.restore();
+};
+
+// --- Rendering ---
+
+// Draws the selected mode in CSS pixels; the caller scales the context for the device pixel ratio.
+export const drawAttentionMap = (ctx: CanvasRenderingContext2D, width: number, height: number, data: AttentionMapData, settings: AttentionMapSettings) => {
+    ctx.save();
+    ctx.globalAlpha = settings.opacity;
+    if (settings.mode === 'heatmap') {
+        drawHeatmap(ctx, width, height, data.samples, settings.radius);
+    } else {
+        drawScanpath(ctx, width, height, data.fixations);
+    }
+    ctx.restore();
+};
+
+/**
+ * Renders the map at the window's size over a plain fill of the page background. The page itself
+ * isn't captured, so the image shows where gaze went rather than what was on screen.
+ */
+export const renderAttentionMapPng = (data: AttentionMapData, settings: AttentionMapSettings): Promise<Blob> => {
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const scale = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas 2D is not available.'));
+
+    ctx.scale(scale, scale);
+    const background = getComputedStyle(document.body).backgroundColor;
+    ctx.fillStyle = background && background !== TRANSPARENT ? background : FALLBACK_BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    drawAttentionMap(ctx, width, height, data, settings);
+
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Failed to encode the PNG.')),
+        'image/png',
+    ));
+};
@@ -0,0 +1,51 @@
+import type { BlendshapeScores, FaceLandmarkerResult } from '../types';
+
+type BlendshapeClassification = NonNullable<FaceLandmarkerResult['faceBlendshapes']>[number];
+
+const PINNED_STORAGE_KEY = 'react-eye-tracker:pinned-blendshapes';
+
+// Flattens MediaPipe's category list into a name → score lookup.
+export const toBlendshapeScores = (classification: BlendshapeClassification): BlendshapeScores => {
+    const scores: BlendshapeScores = {};
+    for (const { categoryName, score } of classification.categories) {
+        scores[categoryName] = score;
+    }
+    return scores;
+};
+
+// Higher-level expressions built from the raw categories, for features that don't care about sides.
+export const EXPRESSION_CATEGORIES = {
+    eyeBlink: ['eyeBlinkLeft', 'eyeBlinkRight'],
+    eyeSquint: ['eyeSquintLeft', 'eyeSquintRight'],
+    eyeWide: ['eyeWideLeft', 'eyeWideRight'],
+    browRaise: ['browInnerUp', 'browOuterUpLeft', 'browOuterUpRight'],
+    browDown: ['browDownLeft', 'browDownRight'],
+    jawOpen: ['jawOpen'],
+    smile: ['mouthSmileLeft', 'mouthSmileRight'],
+} as const;
+
+export type Expression = keyof typeof EXPRESSION_CATEGORIES;
+
+// Mean score of an expression's categories; categories missing from the frame count as 0.
+export const getExpressionScore = (scores: BlendshapeScores, expression: Expression): number => {
+    const categories = EXPRESSION_CATEGORIES[expression];
+    return categories.reduce((sum, name) => sum + (scores[name] ?? 0), 0) / categories.length;
+};
+
+export const loadPinnedBlendshapes = (): string[] => {
+    try {
+        const raw = window.localStorage.getItem(PINNED_STORAGE_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter((name): name is string => typeof name === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+export const savePinnedBlendshapes = (names: string[]) => {
+    try {
+        window.localStorage.setItem(PINNED_STORAGE_KEY, JSON.stringify(names));
+    } catch (e) {
+        console.error("Failed to save pinned blendshapes:", e);
+    }
+};
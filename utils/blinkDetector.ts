@@ -0,0 +1,163 @@
+import type { BlendshapeScores, BlinkEvent, EyeSide, NormalizedLandmark } from '../types';
+
+export interface BlinkDetectorSettings {
+    closeAspectRatio: number;   // An eye counts as closed below this eye aspect ratio...
+    openAspectRatio: number;    // ...and as open again above this one
+    closeBlendshape: number;    // Same hysteresis for the eyeBlink blendshape, when available
+    openBlendshape: number;
+    minDuration: number;        // Closures shorter than this (ms) are treated as noise
+}
+
+export const DEFAULT_BLINK_SETTINGS: BlinkDetectorSettings = {
+    closeAspectRatio: 0.18,
+    openAspectRatio: 0.22,
+    closeBlendshape: 0.5,
+    openBlendshape: 0.35,
+    minDuration: 50,
+};
+
+export interface EyeOpenness {
+    aspectRatio: number;
+    blendshape: number | null;
+    closed: boolean;
+}
+
+export interface BlinkState {
+    rightEye: EyeOpenness;
+    leftEye: EyeOpenness;
+    eyesClosed: boolean;          // Either eye is closed
+    bothEyesClosed: boolean;      // Nothing left to track; a single closed eye is dropped by eye weighting instead
+    closedSince: number | null;   // Start of the current closure of both eyes
+    lastReopenedAt: number | null; // End of the most recent closure of both eyes
+}
+
+export interface BlinkDetectorInput {
+    landmarks: NormalizedLandmark[];
+    blendshapes?: BlendshapeScores;
+    width: number;
+    height: number;
+    timestamp: number; // Milliseconds
+}
+
+// Eye contour landmarks in the order p1..p6 of Soukupová & Čech (2016): corners at p1/p4,
+// upper lid at p2/p3, lower lid at p6/p5.
+const EYE_CONTOURS: Record<EyeSide, number[]> = {
+    right: [33, 160, 158, 133, 153, 144],
+    left: [362, 385, 387, 263, 373, 380],
+};
+
+const BLINK_BLENDSHAPES: Record<EyeSide, string> = {
+    right: 'eyeBlinkRight',
+    left: 'eyeBlinkLeft',
+};
+
+// Ratio of lid opening to eye width; it drops towards zero as the eye closes.
+export const eyeAspectRatio = (landmarks: NormalizedLandmark[], eye: EyeSide, width: number, height: number) => {
+    const [p1, p2, p3, p4, p5, p6] = EYE_CONTOURS[eye].map(i => landmarks[i]);
+    const dist = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot((a.x - b.x) * width, (a.y - b.y) * height);
+    const eyeWidth = dist(p1, p4);
+    if (eyeWidth < 1e-6) return 0;
+    return (dist(p2, p6) + dist(p3, p5)) / (2 * eyeWidth);
+};
+
+type BlinkEventListener = (event: BlinkEvent) => void;
+
+/**
+ * Tracks per-eye closure from the eye aspect ratio and, when present, the eyeBlink
+ * blendshapes. A closure that involves both eyes is reported as a blink, one that
+ * involves a single eye as a wink; events are delivered once the eyes reopen.
+ */
+export class BlinkDetector {
+    private settings: BlinkDetectorSettings;
+    private listeners = new Set<BlinkEventListener>();
+    private closed: Record<EyeSide, boolean> = { right: false, left: false };
+    private episode: { startTime: number; right: boolean; left: boolean } | null = null;
+    private bothClosedSince: number | null = null;
+    private lastReopenedAt: number | null = null;
+
+    constructor(settings: BlinkDetectorSettings = DEFAULT_BLINK_SETTINGS) {
+        this.settings = settings;
+    }
+
+    subscribe(listener: BlinkEventListener) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    configure(settings: BlinkDetectorSettings) {
+        this.settings = settings;
+        this.reset();
+    }
+
+    // Forgets any closure in progress without reporting it, e.g. when the face is lost.
+    reset() {
+        this.closed = { right: false, left: false };
+        this.episode = null;
+        this.bothClosedSince = null;
+        this.lastReopenedAt = null;
+    }
+
+    update(input: BlinkDetectorInput): BlinkState {
+        const { landmarks, blendshapes, width, height, timestamp } = input;
+        const rightEye = this.updateEye('right', landmarks, blendshapes, width, height);
+        const leftEye = this.updateEye('left', landmarks, blendshapes, width, height);
+        const eyesClosed = rightEye.closed || leftEye.closed;
+        const bothEyesClosed = rightEye.closed && leftEye.closed;
+
+        if (bothEyesClosed) {
+            this.bothClosedSince ??= timestamp;
+        } else if (this.bothClosedSince !== null) {
+            this.bothClosedSince = null;
+            this.lastReopenedAt = timestamp;
+        }
+
+        if (eyesClosed) {
+            if (!this.episode) this.episode = { startTime: timestamp, right: false, left: false };
+            this.episode.right ||= rightEye.closed;
+            this.episode.left ||= leftEye.closed;
+        } else if (this.episode) {
+            const { startTime, right, left } = this.episode;
+            const duration = timestamp - startTime;
+            this.episode = null;
+            if (duration >= this.settings.minDuration) {
+                const both = right && left;
+                this.emit({
+                    type: both ? 'blink' : 'wink',
+                    eye: both ? 'both' : right ? 'right' : 'left',
+                    timestamp,
+                    startTime,
+                    duration,
+                });
+            }
+        }
+
+        return {
+            rightEye,
+            leftEye,
+            eyesClosed,
+            bothEyesClosed,
+            closedSince: this.bothClosedSince,
+            lastReopenedAt: this.lastReopenedAt,
+        };
+    }
+
+    private updateEye(eye: EyeSide, landmarks: NormalizedLandmark[], blendshapes: BlendshapeScores | undefined, width: number, height: number): EyeOpenness {
+        const aspectRatio = eyeAspectRatio(landmarks, eye, width, height);
+        const blendshape = blendshapes?.[BLINK_BLENDSHAPES[eye]] ?? null;
+        const { closeAspectRatio, openAspectRatio, closeBlendshape, openBlendshape } = this.settings;
+
+        // Either signal can close the eye; reopening needs every available signal to agree.
+        if (this.closed[eye]) {
+            const open = aspectRatio > openAspectRatio && (blendshape === null || blendshape < openBlendshape);
+            if (open) this.closed[eye] = false;
+        } else {
+            const closed = aspectRatio < closeAspectRatio || (blendshape !== null && blendshape > closeBlendshape);
+            if (closed) this.closed[eye] = true;
+        }
+        return { aspectRatio, blendshape, closed: this.closed[eye] };
+    }
+
+    private emit(event: BlinkEvent) {
+        this.listeners.forEach(listener => listener(event));
+    }
+}
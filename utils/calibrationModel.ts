@@ -0,0 +1,141 @@
+import type { GazeFeatureSet, GazeVector, HeadPose, RegressionCoefficients } from '../types';
+import { ridgeRegression } from './regression';
+
+// --- Feature Expansion ---
+// Each term maps a (gaze vector, head pose) pair to one regression input.
+const FEATURE_TERMS: Record<string, (gaze: GazeVector, headPose: HeadPose | null) => number> = {
+    intercept: () => 1,
+    gaze_x: (g) => g.x,
+    gaze_y: (g) => g.y,
+    gaze_x2: (g) => g.x * g.x,
+    gaze_y2: (g) => g.y * g.y,
+    gaze_xy: (g) => g.x * g.y,
+    // Head-pose terms fall back to 0 when no transformation matrix is available.
+    head_tx: (_, h) => h?.translation.x ?? 0,
+    head_ty: (_, h) => h?.translation.y ?? 0,
+    head_tz: (_, h) => h?.translation.z ?? 0,
+    head_yaw: (_, h) => h?.yaw ?? 0,
+    head_pitch: (_, h) => h?.pitch ?? 0,
+    head_roll: (_, h) => h?.roll ?? 0,
+    // The same eye rotation covers more of the screen from further away, so gaze scales with depth.
+    gaze_x_tz: (g, h) => g.x * (h?.translation.z ?? 0),
+    gaze_y_tz: (g, h) => g.y * (h?.translation.z ?? 0),
+};
+
+export const SUPPORTED_FEATURE_TERMS = Object.keys(FEATURE_TERMS);
+
+export const FEATURE_SET_LAYOUTS: Record<GazeFeatureSet, string[]> = {
+    linear: ['intercept', 'gaze_x', 'gaze_y'],
+    quadratic: ['intercept', 'gaze_x', 'gaze_y', 'gaze_x2', 'gaze_y2', 'gaze_xy'],
+    quadratic_head_pose: ['intercept', 'gaze_x', 'gaze_y', 'gaze_x2', 'gaze_y2', 'gaze_xy', 'head_tx', 'head_ty', 'head_yaw', 'head_pitch'],
+    head_pose_full: [
+        'intercept', 'gaze_x', 'gaze_y', 'gaze_x2', 'gaze_y2', 'gaze_xy',
+        'head_tx', 'head_ty', 'head_tz', 'head_yaw', 'head_pitch', 'head_roll', 'gaze_x_tz', 'gaze_y_tz',
+    ],
+};
+
+export const FEATURE_SET_LABELS: Record<GazeFeatureSet, string> = {
+    linear: 'Linear',
+    quadratic: 'Quadratic',
+    quadratic_head_pose: 'Quadratic + Head Pose',
+    head_pose_full: 'Quadratic + Full Head Pose',
+};
+
+export const DEFAULT_FEATURE_SET: GazeFeatureSet = 'quadratic';
+
+// Feature set used when head compensation is learned and the selected set ignores head pose.
+export const LEARNED_HEAD_COMPENSATION_FEATURE_SET: GazeFeatureSet = 'head_pose_full';
+
+export const usesHeadPose = (featureLayout: string[]) => featureLayout.some(name => name.startsWith('head_'));
+
+export const buildFeatureVector = (featureLayout: string[], gaze: GazeVector, headPose: HeadPose | null = null): number[] => {
+    return featureLayout.map(name => {
+        const term = FEATURE_TERMS[name];
+        if (!term) throw new Error(`Unknown gaze feature "${name}".`);
+        return term(gaze, headPose);
+    });
+};
+
+// Standardizes every column except the intercept so ridge penalizes all terms evenly.
+const computeStandardization = (X: number[][], featureLayout: string[]) => {
+    const means = featureLayout.map((name, j) => name === 'intercept' ? 0 : X.reduce((sum, row) => sum + row[j], 0) / X.length);
+    const scales = featureLayout.map((name, j) => {
+        if (name === 'intercept') return 1;
+        const variance = X.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / X.length;
+        return Math.sqrt(variance) > 1e-9 ? Math.sqrt(variance) : 1;
+    });
+    return { means, scales };
+};
+
+const standardize = (features: number[], means: number[], scales: number[]) => features.map((f, j) => (f - means[j]) / scales[j]);
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, val, i) => sum + val * b[i], 0);
+
+export interface CalibrationTrainingPoint {
+    gaze: GazeVector;
+    headPose?: HeadPose;
+    target: { u: number; v: number };
+}
+
+// Candidate regularization strengths tried during cross-validation.
+const LAMBDA_CANDIDATES = [1e-4, 1e-3, 1e-2, 1e-1, 1, 10];
+
+const fitWithLambda = (X: number[][], targets: { u: number; v: number }[], featureLayout: string[], lambda: number): RegressionCoefficients | null => {
+    const { means, scales } = computeStandardization(X, featureLayout);
+    const Xs = X.map(row => standardize(row, means, scales));
+    // Shrinking the intercept would pull every prediction towards the top-left corner.
+    const unpenalized = featureLayout.flatMap((name, j) => name === 'intercept' ? [j] : []);
+    const u = ridgeRegression(Xs, targets.map(t => t.u), lambda, unpenalized);
+    const v = ridgeRegression(Xs, targets.map(t => t.v), lambda, unpenalized);
+    if (!u || !v) return null;
+    return { u, v, featureLayout, featureMeans: means, featureScales: scales, lambda, cvError: null };
+};
+
+/**
+ * Fits the calibration regression for the given feature layout. The regularization strength is
+ * chosen by leave-one-point-out cross-validation, and the winning model is refit on all points.
+ */
+export const trainCalibrationModel = (points: CalibrationTrainingPoint[], featureLayout: string[]): RegressionCoefficients | null => {
+    // We need at least as many data points as the linear model has features.
+    if (points.length < 3) return null;
+
+    const X = points.map(p => buildFeatureVector(featureLayout, p.gaze, p.headPose ?? null));
+    const targets = points.map(p => p.target);
+
+    let best: { lambda: number; error: number } | null = null;
+    for (const lambda of LAMBDA_CANDIDATES) {
+        let squaredErrorSum = 0;
+        let folds = 0;
+        for (let i = 0; i < points.length; i++) {
+            const trainX = X.filter((_, j) => j !== i);
+            const trainTargets = targets.filter((_, j) => j !== i);
+            const model = fitWithLambda(trainX, trainTargets, featureLayout, lambda);
+            if (!model) continue;
+            const predicted = predictWithCoefficients(model, X[i]);
+            squaredErrorSum += (predicted.u - targets[i].u) ** 2 + (predicted.v - targets[i].v) ** 2;
+            folds++;
+        }
+        if (folds === 0) continue;
+        const error = Math.sqrt(squaredErrorSum / folds);
+        if (!best || error < best.error) best = { lambda, error };
+    }
+
+    const lambda = best?.lambda ?? 0.01;
+    const model = fitWithLambda(X, targets, featureLayout, lambda);
+    return model ? { ...model, cvError: best?.error ?? null } : null;
+};
+
+// Applies the fitted model to an already-expanded feature vector. Output is unclamped.
+export const predictWithCoefficients = (coeffs: RegressionCoefficients, features: number[]) => {
+    const standardized = standardize(features, coeffs.featureMeans, coeffs.featureScales);
+    return { u: dot(standardized, coeffs.u), v: dot(standardized, coeffs.v) };
+};
+
+// Finds the named feature set a stored layout came from, if any.
+export const findFeatureSet = (featureLayout: string[]): GazeFeatureSet | null => {
+    const match = (Object.keys(FEATURE_SET_LAYOUTS) as GazeFeatureSet[]).find(set => {
+        const layout = FEATURE_SET_LAYOUTS[set];
+        return layout.length === featureLayout.length && layout.every((name, i) => name === featureLayout[i]);
+    });
+    return match ?? null;
+};
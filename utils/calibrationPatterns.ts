@@ -0,0 +1,142 @@
+import type { CalibrationPatternPreset, CalibrationPattern, CalibrationTarget, HeadPosition, NormalizedGazePoint } from '../types';
+
+const grid = (steps: number[]): NormalizedGazePoint[] =>
+    steps.flatMap(v => steps.map(u => ({ u, v })));
+
+const NINE_POINTS: NormalizedGazePoint[] = [
+    { u: 0.5, v: 0.5 },
+    { u: 0.5, v: 0.0 },
+    { u: 1.0, v: 0.0 },
+    { u: 1.0, v: 0.5 },
+    { u: 1.0, v: 1.0 },
+    { u: 0.5, v: 1.0 },
+    { u: 0.0, v: 1.0 },
+    { u: 0.0, v: 0.5 },
+    { u: 0.0, v: 0.0 },
+];
+
+// Points are in the unit square before the margin is applied. The nine-point order matches
+// the original hard-coded sequence: center first, then clockwise from the top.
+export const CALIBRATION_PATTERN_PRESETS: Record<CalibrationPatternPreset, { label: string; points: NormalizedGazePoint[] }> = {
+    '5': {
+        label: '5 points',
+        points: [{ u: 0.5, v: 0.5 }, { u: 0, v: 0 }, { u: 1, v: 0 }, { u: 1, v: 1 }, { u: 0, v: 1 }],
+    },
+    '9': { label: '9 points', points: NINE_POINTS },
+    '13': {
+        label: '13 points',
+        points: [...NINE_POINTS, { u: 0.25, v: 0.25 }, { u: 0.75, v: 0.25 }, { u: 0.75, v: 0.75 }, { u: 0.25, v: 0.75 }],
+    },
+    '16': { label: '16 points', points: grid([0, 1 / 3, 2 / 3, 1]) },
+};
+
+export const DEFAULT_CALIBRATION_PATTERN: CalibrationPattern = {
+    mode: 'points',
+    pursuit: { path: 'lissajous', durationMs: 20000, latencyMs: 100 },
+    preset: '9',
+    customPoints: [],
+    randomOrder: false,
+    margin: 0.05,
+    headCompensation: 'fixed',
+    headPositions: ['center'],
+};
+
+export const HEAD_POSITIONS: Record<HeadPosition, { label: string; instruction: string }> = {
+    center: { label: 'Normal', instruction: 'Sit in your normal position.' },
+    closer: { label: 'Closer', instruction: 'Lean in towards the screen.' },
+    farther: { label: 'Farther', instruction: 'Lean back from the screen.' },
+    left: { label: 'Left', instruction: 'Move your head to the left.' },
+    right: { label: 'Right', instruction: 'Move your head to the right.' },
+};
+
+export const MAX_CALIBRATION_MARGIN = 0.25;
+
+// Maps a unit-square point into the area left inside the margin.
+export const applyMargin = (point: NormalizedGazePoint, margin: number): NormalizedGazePoint => {
+    const m = Math.min(Math.max(margin, 0), MAX_CALIBRATION_MARGIN);
+    const scale = 1 - 2 * m;
+    return { u: m + point.u * scale, v: m + point.v * scale };
+};
+
+// Profiles saved before targets were stored keyed their points by step name, with markers at the screen edges.
+export const LEGACY_TARGET_POSITIONS: Record<string, NormalizedGazePoint> = {
+    'collecting_center':       { u: 0.5, v: 0.5 },
+    'collecting_top_center':   { u: 0.5, v: 0.0 },
+    'collecting_top_right':    { u: 1.0, v: 0.0 },
+    'collecting_middle_right': { u: 1.0, v: 0.5 },
+    'collecting_bottom_right': { u: 1.0, v: 1.0 },
+    'collecting_bottom_center':{ u: 0.5, v: 1.0 },
+    'collecting_bottom_left':  { u: 0.0, v: 1.0 },
+    'collecting_middle_left':  { u: 0.0, v: 0.5 },
+    'collecting_top_left':     { u: 0.0, v: 0.0 },
+};
+
+// Names points on the 3×3 grid ('top-left', 'center', ...); anything else is numbered.
+const describePoint = (point: NormalizedGazePoint, index: number) => {
+    const name = (value: number, low: string, high: string) =>
+        value === 0 ? low : value === 1 ? high : value === 0.5 ? 'center' : null;
+    const vertical = name(point.v, 'top', 'bottom');
+    const horizontal = name(point.u, 'left', 'right');
+    if (!vertical || !horizontal) return `point ${index + 1}`;
+    if (vertical === 'center' && horizontal === 'center') return 'center';
+    return `${vertical === 'center' ? 'middle' : vertical}-${horizontal}`;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+export const getPatternPoints = (settings: CalibrationPattern): NormalizedGazePoint[] =>
+    settings.preset === 'custom' ? settings.customPoints : CALIBRATION_PATTERN_PRESETS[settings.preset].points;
+
+/**
+ * Expands pattern settings into the ordered list of targets the calibration walks through.
+ * Ids follow the pattern order, so a shuffled run still stores each point under a stable key.
+ * With several head positions the whole pattern is repeated once per position.
+ */
+export const buildCalibrationTargets = (settings: CalibrationPattern, random: () => number = Math.random): CalibrationTarget[] => {
+    const positions: HeadPosition[] = settings.headPositions.length > 0 ? settings.headPositions : ['center'];
+    const multiplePositions = positions.length > 1;
+    return positions.flatMap(headPosition => {
+        const targets = getPatternPoints(settings).map((point, i): CalibrationTarget => ({
+            id: multiplePositions ? `${headPosition}_point_${i + 1}` : `point_${i + 1}`,
+            label: describePoint(point, i),
+            position: applyMargin(point, settings.margin),
+            ...(multiplePositions && { headPosition }),
+        }));
+        return settings.randomOrder ? shuffle(targets, random) : targets;
+    });
+};
+
+/**
+ * Parses one "u, v" pair per line, both in [0, 1]. Blank lines are skipped but still counted,
+ * so a thrown Error names the first unusable line as it was written.
+ */
+export const parsePointList = (text: string): NormalizedGazePoint[] =>
+    text.split('\n')
+        .map((line, i) => [line.trim(), i + 1] as const)
+        .filter(([line]) => line.length > 0)
+        .map(([line, lineNumber]) => {
+            const parts = line.split(/[\s,;]+/).map(Number);
+            if (parts.length !== 2 || !parts.every(n => Number.isFinite(n) && n >= 0 && n <= 1)) {
+                throw new Error(`Line ${lineNumber} should be two numbers between 0 and 1, like "0.5, 0.5".`);
+            }
+            return { u: parts[0], v: parts[1] };
+        });
+
+// Custom calibration points, in the format of parsePointList.
+export const parseCustomPoints = (text: string): NormalizedGazePoint[] => {
+    const points = parsePointList(text);
+    if (points.length < 3) {
+        throw new Error('A custom pattern needs at least 3 points.');
+    }
+    return points;
+};
+
+export const formatCustomPoints = (points: NormalizedGazePoint[]) =>
+    points.map(p => `${p.u}, ${p.v}`).join('\n');
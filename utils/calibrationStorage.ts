@@ -0,0 +1,331 @@
+import type { CalibrationData, CalibrationFile, CalibrationProfile, CalibrationValidation, GazeMapperModel, HeadPose, HeadPoseReference, ValidationMetrics } from '../types';
+import { FEATURE_SET_LAYOUTS, SUPPORTED_FEATURE_TERMS } from './calibrationModel';
+import { downloadBlob, toFileSafeName } from './download';
+
+// Bump this whenever the shape of CalibrationData changes in a way older builds can't read.
+// Version 1 stored plain linear coefficients; version 2 added the feature layout and standardization;
+// version 3 wraps the model in a tagged gaze mapper payload.
+export const CALIBRATION_SCHEMA_VERSION = 3;
+const CALIBRATION_FILE_FORMAT = 'react-eye-tracker/calibration';
+
+const PROFILES_STORAGE_KEY = 'react-eye-tracker:calibration-profiles';
+const LAST_PROFILE_STORAGE_KEY = 'react-eye-tracker:last-calibration-profile';
+
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isGazeVector = (value: unknown): boolean => {
+    const v = value as { x?: unknown; y?: unknown } | null;
+    return !!v && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+};
+
+const isNumberArray = (value: unknown, length?: number): value is number[] =>
+    Array.isArray(value) && (length === undefined || value.length === length) && value.every(isFiniteNumber);
+
+const isPointList = (value: unknown, dims: number): value is number[][] =>
+    Array.isArray(value) && value.every(row => isNumberArray(row, dims));
+
+// Throws if a feature layout references terms this build doesn't know how to compute.
+const validateFeatureLayout = (layout: unknown): string[] => {
+    if (!Array.isArray(layout) || layout.length === 0 || !layout.every(name => typeof name === 'string')) {
+        throw new Error('Calibration has no feature layout.');
+    }
+    const unknown = layout.filter(name => !SUPPORTED_FEATURE_TERMS.includes(name));
+    if (unknown.length > 0) {
+        throw new Error(`Calibration uses unsupported features: ${unknown.join(', ')}.`);
+    }
+    return layout;
+};
+
+// Upgrades calibration data written by older schema versions to the current shape.
+const migrateCalibrationData = (value: unknown): unknown => {
+    const data = value as { regressionCoeffs?: Record<string, unknown>; mapper?: unknown } | null;
+    if (!data?.regressionCoeffs || data.mapper) return value;
+
+    // Version 1 always used the linear [1, x, y] model without standardization.
+    const linearLayout = FEATURE_SET_LAYOUTS.linear;
+    const coefficients = data.regressionCoeffs.featureLayout ? data.regressionCoeffs : {
+        ...data.regressionCoeffs,
+        featureLayout: linearLayout,
+        featureMeans: linearLayout.map(() => 0),
+        featureScales: linearLayout.map(() => 1),
+        lambda: 0.01,
+        cvError: null,
+    };
+
+    // Version 2 stored ridge coefficients directly on the calibration.
+    const { regressionCoeffs: _, ...rest } = data;
+    return {
+        ...rest,
+        mapper: {
+            kind: 'ridge',
+            featureLayout: coefficients.featureLayout,
+            cvError: coefficients.cvError ?? null,
+            coefficients,
+        },
+    };
+};
+
+const validateStandardization = (value: unknown, dims: number) => {
+    const standardization = value as { means?: unknown; scales?: unknown } | null;
+    if (!isNumberArray(standardization?.means, dims) || !isNumberArray(standardization?.scales, dims)) {
+        throw new Error('Calibration model has invalid input standardization.');
+    }
+};
+
+// Throws if a serialised gaze mapper is malformed or inconsistent with its feature layout.
+const validateGazeMapperModel = (model: GazeMapperModel) => {
+    const featureLayout = validateFeatureLayout(model.featureLayout);
+    const n = featureLayout.length;
+    if (model.cvError !== null && !isFiniteNumber(model.cvError)) {
+        throw new Error('Calibration model has an invalid cross-validation error.');
+    }
+    switch (model.kind) {
+        case 'ridge': {
+            const { u, v, featureMeans, featureScales, lambda } = model.coefficients ?? {};
+            if (!isNumberArray(u, n) || !isNumberArray(v, n) || !isNumberArray(featureMeans, n) || !isNumberArray(featureScales, n)) {
+                throw new Error(`Calibration model does not match its ${n}-feature layout.`);
+            }
+            if (!isFiniteNumber(lambda)) {
+                throw new Error('Calibration model has no regularization strength.');
+            }
+            return;
+        }
+        case 'thin_plate_spline': {
+            validateStandardization(model.standardization, n);
+            const centers = model.centers;
+            if (!isPointList(centers, n) || !isNumberArray(model.weightsU, centers.length + 3) || !isNumberArray(model.weightsV, centers.length + 3)) {
+                throw new Error('Thin-plate spline model has inconsistent centers and weights.');
+            }
+            return;
+        }
+        case 'knn': {
+            validateStandardization(model.standardization, n);
+            if (!isPointList(model.inputs, n) || !Array.isArray(model.targets) || model.targets.length !== model.inputs.length) {
+                throw new Error('kNN model has inconsistent inputs and targets.');
+            }
+            if (!model.targets.every(t => isFiniteNumber(t?.u) && isFiniteNumber(t?.v)) || !isFiniteNumber(model.k) || !isFiniteNumber(model.power)) {
+                throw new Error('kNN model has invalid targets or parameters.');
+            }
+            return;
+        }
+        case 'gaussian_process': {
+            validateStandardization(model.standardization, n);
+            const inputs = model.inputs;
+            if (!isPointList(inputs, n) || !isNumberArray(model.alphaU, inputs.length) || !isNumberArray(model.alphaV, inputs.length)) {
+                throw new Error('Gaussian process model has inconsistent inputs and weights.');
+            }
+            if (![model.meanU, model.meanV, model.lengthScale, model.signalVariance, model.noiseVariance].every(isFiniteNumber)) {
+                throw new Error('Gaussian process model has invalid hyperparameters.');
+            }
+            return;
+        }
+        default:
+            throw new Error(`Unsupported gaze mapper "${(model as { kind?: unknown }).kind}".`);
+    }
+};
+
+const hasValidationMetrics = (value: ValidationMetrics | null | undefined) =>
+    !!value && [value.accuracyPx, value.accuracyDeg, value.precisionPx, value.precisionDeg].every(isFiniteNumber);
+
+const validateValidationReport = (report: CalibrationValidation) => {
+    if (!hasValidationMetrics(report) || !isFiniteNumber(report.screenWidth) || !isFiniteNumber(report.screenHeight) || !Array.isArray(report.points)) {
+        throw new Error('Calibration has an invalid validation report.');
+    }
+    if (!report.points.every(p => hasValidationMetrics(p) && isFiniteNumber(p.target?.u) && isFiniteNumber(p.target?.v))) {
+        throw new Error('Calibration validation report has invalid points.');
+    }
+};
+
+const isHeadPose = (pose: HeadPose | undefined) =>
+    !!pose && [pose.translation?.x, pose.translation?.y, pose.translation?.z, pose.yaw, pose.pitch, pose.roll].every(isFiniteNumber);
+
+const validateHeadPoseReference = (reference: HeadPoseReference) => {
+    const box = reference.faceBox;
+    if (!isHeadPose(reference.mean) || !isHeadPose(reference.min) || !isHeadPose(reference.max) ||
+        !box || ![box.x, box.y, box.width, box.height].every(isFiniteNumber)) {
+        throw new Error('Calibration has an invalid head pose reference.');
+    }
+};
+
+/**
+ * Checks that an unknown value has the shape of CalibrationData and that any stored
+ * gaze mapper matches its feature layout. Throws an Error describing the first problem found.
+ */
+export const validateCalibrationData = (value: unknown): CalibrationData => {
+    const data = value as CalibrationData | null;
+    if (!data || typeof data !== 'object' || !data.points || typeof data.points !== 'object') {
+        throw new Error('Calibration data is missing its calibration points.');
+    }
+    for (const [step, point] of Object.entries(data.points)) {
+        if (!point || !isGazeVector(point.avgGaze)) {
+            throw new Error(`Calibration point "${step}" has an invalid gaze vector.`);
+        }
+        if ((point.avgGazeRight && !isGazeVector(point.avgGazeRight)) || (point.avgGazeLeft && !isGazeVector(point.avgGazeLeft))) {
+            throw new Error(`Calibration point "${step}" has an invalid per-eye gaze vector.`);
+        }
+        if (point.target && !(isFiniteNumber(point.target.u) && isFiniteNumber(point.target.v))) {
+            throw new Error(`Calibration point "${step}" has an invalid target position.`);
+        }
+    }
+    if (data.mapper) {
+        validateGazeMapperModel(data.mapper);
+    }
+    if (data.eyeMappers) {
+        validateGazeMapperModel(data.eyeMappers.right);
+        validateGazeMapperModel(data.eyeMappers.left);
+    }
+    if (data.validation) {
+        validateValidationReport(data.validation);
+    }
+    if (data.headPoseReference) {
+        validateHeadPoseReference(data.headPoseReference);
+    }
+    if (data.headCompensation !== undefined && data.headCompensation !== 'fixed' && data.headCompensation !== 'learned') {
+        throw new Error(`Calibration uses unsupported head compensation "${data.headCompensation}".`);
+    }
+    return data;
+};
+
+// --- Persistence (localStorage) ---
+
+const readProfiles = (): Record<string, CalibrationProfile> => {
+    try {
+        const raw = window.localStorage.getItem(PROFILES_STORAGE_KEY);
+        if (!raw) return {};
+        const parsed = JSON.parse(raw) as Record<string, CalibrationProfile>;
+        // Silently drop any profile that no longer matches the current feature layout.
+        const profiles: Record<string, CalibrationProfile> = {};
+        for (const [name, profile] of Object.entries(parsed)) {
+            try {
+                const data = validateCalibrationData(migrateCalibrationData(profile.data));
+                profiles[name] = { ...profile, data };
+            } catch (e) {
+                console.warn(`Ignoring stored calibration profile "${name}":`, e);
+            }
+        }
+        return profiles;
+    } catch (e) {
+        console.error("Failed to read calibration profiles:", e);
+        return {};
+    }
+};
+
+const writeProfiles = (profiles: Record<string, CalibrationProfile>) => {
+    try {
+        window.localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (e) {
+        console.error("Failed to save calibration profiles:", e);
+    }
+};
+
+export const listCalibrationProfiles = (): CalibrationProfile[] => {
+    return Object.values(readProfiles()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadCalibrationProfile = (name: string): CalibrationProfile | null => {
+    return readProfiles()[name] ?? null;
+};
+
+export const saveCalibrationProfile = (name: string, data: CalibrationData): CalibrationProfile => {
+    const profiles = readProfiles();
+    const now = Date.now();
+    // Click-based corrections only hold for the current session.
+    const { implicitCorrection: _, ...explicitData } = data;
+    const profile: CalibrationProfile = {
+        name,
+        createdAt: profiles[name]?.createdAt ?? now,
+        updatedAt: now,
+        data: explicitData,
+    };
+    profiles[name] = profile;
+    writeProfiles(profiles);
+    setLastUsedProfileName(name);
+    return profile;
+};
+
+export const deleteCalibrationProfile = (name: string) => {
+    const profiles = readProfiles();
+    delete profiles[name];
+    writeProfiles(profiles);
+    if (getLastUsedProfileName() === name) {
+        window.localStorage.removeItem(LAST_PROFILE_STORAGE_KEY);
+    }
+};
+
+export const getLastUsedProfileName = (): string | null => {
+    try {
+        return window.localStorage.getItem(LAST_PROFILE_STORAGE_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setLastUsedProfileName = (name: string) => {
+    try {
+        window.localStorage.setItem(LAST_PROFILE_STORAGE_KEY, name);
+    } catch (e) {
+        console.error("Failed to remember last calibration profile:", e);
+    }
+};
+
+// Returns the profile used most recently, so gaze mapping works straight after a reload.
+export const loadLastUsedProfile = (): CalibrationProfile | null => {
+    const name = getLastUsedProfileName();
+    return name ? loadCalibrationProfile(name) : null;
+};
+
+// --- Import / Export ---
+
+export const serializeCalibrationProfile = (profile: CalibrationProfile): string => {
+    const file: CalibrationFile = {
+        format: CALIBRATION_FILE_FORMAT,
+        version: CALIBRATION_SCHEMA_VERSION,
+        featureLayout: profile.data.mapper?.featureLayout ?? [],
+        profile,
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses an exported calibration file. Throws if the file isn't a calibration export,
+ * was written by an incompatible schema version, or uses a different feature layout.
+ */
+export const parseCalibrationFile = (text: string): CalibrationProfile => {
+    let file: Partial<CalibrationFile>;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        throw new Error('Calibration file is not valid JSON.');
+    }
+    if (!file || file.format !== CALIBRATION_FILE_FORMAT) {
+        throw new Error('File is not a calibration export.');
+    }
+    if (!isFiniteNumber(file.version) || file.version < 1 || file.version > CALIBRATION_SCHEMA_VERSION) {
+        throw new Error(`Unsupported calibration file version ${file.version} (expected ${CALIBRATION_SCHEMA_VERSION} or older).`);
+    }
+    const profile = file.profile;
+    if (!profile || typeof profile.name !== 'string' || !profile.name.trim()) {
+        throw new Error('Calibration file has no profile name.');
+    }
+    const data = validateCalibrationData(migrateCalibrationData(profile.data));
+    // The envelope's layout must agree with the model it describes.
+    const layout = data.mapper?.featureLayout ?? [];
+    const declared = file.featureLayout;
+    if (!Array.isArray(declared) || declared.length !== layout.length || declared.some((name, i) => name !== layout[i])) {
+        throw new Error(`Calibration file declares feature layout [${declared?.join(', ')}] but its model uses [${layout.join(', ')}].`);
+    }
+    const now = Date.now();
+    return {
+        name: profile.name.trim(),
+        createdAt: isFiniteNumber(profile.createdAt) ? profile.createdAt : now,
+        updatedAt: isFiniteNumber(profile.updatedAt) ? profile.updatedAt : now,
+        data,
+    };
+};
+
+export const downloadCalibrationProfile = (profile: CalibrationProfile) => {
+    const blob = new Blob([serializeCalibrationProfile(profile)], { type: 'application/json' });
+    downloadBlob(blob, `calibration-${toFileSafeName(profile.name)}.json`);
+};
@@ -0,0 +1,63 @@
+import type { CalibrationValidation, NormalizedGazePoint, ScreenGeometry, ValidationMetrics, ValidationPointResult } from '../types';
+import { pixelsToDegrees, type TimedGazeSample } from './fixationDetector';
+
+// Targets deliberately sit between the calibration points, so validation measures interpolation.
+export const VALIDATION_TARGETS: NormalizedGazePoint[] = [
+    { u: 0.25, v: 0.25 },
+    { u: 0.75, v: 0.25 },
+    { u: 0.5, v: 0.4 },
+    { u: 0.75, v: 0.75 },
+    { u: 0.25, v: 0.75 },
+];
+
+export const VALIDATION_FRAMES = 45; // Approx 1.5 seconds at 30fps
+
+// Above this overall accuracy the user is encouraged to recalibrate.
+export const VALIDATION_ERROR_THRESHOLD_DEG = 4;
+
+export interface ScreenSize {
+    width: number;
+    height: number;
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const rms = (values: number[]) => Math.sqrt(mean(values.map(v => v * v)));
+
+export const summarizeValidationPoint = (
+    target: NormalizedGazePoint,
+    samples: TimedGazeSample[],
+    screen: ScreenSize,
+    geometry: ScreenGeometry
+): ValidationPointResult => {
+    const targetX = target.u * screen.width;
+    const targetY = target.v * screen.height;
+    const offsets = samples.map(s => Math.hypot(s.x - targetX, s.y - targetY));
+    const steps = samples.slice(1).map((s, i) => Math.hypot(s.x - samples[i].x, s.y - samples[i].y));
+    const toDegrees = (px: number) => pixelsToDegrees(px, geometry);
+
+    return {
+        target,
+        sampleCount: samples.length,
+        accuracyPx: mean(offsets),
+        accuracyDeg: mean(offsets.map(toDegrees)),
+        precisionPx: steps.length > 0 ? rms(steps) : 0,
+        precisionDeg: steps.length > 0 ? rms(steps.map(toDegrees)) : 0,
+    };
+};
+
+// Overall figures are the mean of the per-point figures, so every target weighs the same.
+export const summarizeValidation = (points: ValidationPointResult[], screen: ScreenSize): CalibrationValidation => ({
+    createdAt: Date.now(),
+    screenWidth: screen.width,
+    screenHeight: screen.height,
+    points,
+    accuracyPx: mean(points.map(p => p.accuracyPx)),
+    accuracyDeg: mean(points.map(p => p.accuracyDeg)),
+    precisionPx: mean(points.map(p => p.precisionPx)),
+    precisionDeg: mean(points.map(p => p.precisionDeg)),
+});
+
+// Just the overall figures, e.g. for reporting outside the app.
+export const toValidationMetrics = ({ accuracyPx, accuracyDeg, precisionPx, precisionDeg }: ValidationMetrics): ValidationMetrics => ({
+    accuracyPx, accuracyDeg, precisionPx, precisionDeg,
+});
@@ -0,0 +1,12 @@
+// Triggers a browser download for generated content.
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+// Turns an arbitrary label into something safe to use in a file name.
+export const toFileSafeName = (name: string) => name.replace(/[^a-z0-9_-]+/gi, '_');
@@ -0,0 +1,139 @@
+import type { DwellClickSettings, GazePoint } from '../types';
+import { isUsableGazeSample } from './gazeQuality';
+
+// Elements opt in to dwell-clicking with this attribute. Its value may override the dwell time in ms.
+export const GAZE_TARGET_ATTRIBUTE = 'data-gaze-target';
+
+export const DEFAULT_DWELL_CLICK_SETTINGS: DwellClickSettings = {
+    enabled: false,
+    paused: false,
+    dwellTime: 1000,
+    cooldown: 1000,
+    hysteresis: 24,
+    gracePeriod: 200,
+};
+
+export interface DwellUpdate {
+    target: Element | null;
+    progress: number;        // 0 to 1
+    fired: Element | null;   // Set on the update that completes a dwell
+}
+
+const defaultFindTarget = (x: number, y: number): Element | null =>
+    document.elementFromPoint(x, y)?.closest(`[${GAZE_TARGET_ATTRIBUTE}]`) ?? null;
+
+const isWithinRect = (element: Element, x: number, y: number, margin: number) => {
+    const rect = element.getBoundingClientRect();
+    return x >= rect.left - margin && x <= rect.right + margin && y >= rect.top - margin && y <= rect.bottom + margin;
+};
+
+const getDwellTime = (element: Element, fallback: number) => {
+    const override = Number(element.getAttribute(GAZE_TARGET_ATTRIBUTE));
+    return Number.isFinite(override) && override > 0 ? override : fallback;
+};
+
+/**
+ * Tracks how long gaze has rested on a gaze-targetable element. The current target is kept
+ * while gaze stays within `hysteresis` pixels of it, and brief excursions shorter than the
+ * grace period pause progress instead of resetting it.
+ */
+export class DwellClickTracker {
+    private settings: DwellClickSettings;
+    private findTarget: (x: number, y: number) => Element | null;
+    private target: Element | null = null;
+    private dwelled = 0;
+    private lastTimestamp: number | null = null;
+    private lostSince: number | null = null;
+    private cooldownUntil = -Infinity;
+
+    constructor(settings: DwellClickSettings = DEFAULT_DWELL_CLICK_SETTINGS, findTarget = defaultFindTarget) {
+        this.settings = settings;
+        this.findTarget = findTarget;
+    }
+
+    configure(settings: DwellClickSettings) {
+        this.settings = settings;
+    }
+
+    reset() {
+        this.target = null;
+        this.dwelled = 0;
+        this.lastTimestamp = null;
+        this.lostSince = null;
+    }
+
+    update(point: GazePoint | null): DwellUpdate {
+        const idle: DwellUpdate = { target: null, progress: 0, fired: null };
+        if (!point) {
+            this.reset();
+            return idle;
+        }
+
+        const { timestamp } = point;
+        const elapsed = this.lastTimestamp === null ? 0 : Math.max(0, timestamp - this.lastTimestamp);
+        this.lastTimestamp = timestamp;
+
+        if (timestamp < this.cooldownUntil) {
+            this.target = null;
+            this.dwelled = 0;
+            return idle;
+        }
+
+        // Low-quality samples neither advance nor move the dwell. A blink holds it for as long as it
+        // lasts; anything else, such as a lost face, ends it after the usual grace period.
+        if (!isUsableGazeSample(point)) {
+            if (!this.target) return idle;
+            if (!point.flags.blink) {
+                this.lostSince ??= timestamp;
+                if (timestamp - this.lostSince > this.settings.gracePeriod) {
+                    this.reset();
+                    this.lastTimestamp = timestamp;
+                    return idle;
+                }
+            }
+            return { target: this.target, progress: Math.min(1, this.dwelled / getDwellTime(this.target, this.settings.dwellTime)), fired: null };
+        }
+
+        // Stick with the current target while gaze stays inside its hysteresis margin.
+        const onCurrentTarget = !!this.target && this.target.isConnected && isWithinRect(this.target, point.x, point.y, this.settings.hysteresis);
+        if (onCurrentTarget) {
+            this.lostSince = null;
+            this.dwelled += elapsed;
+        } else {
+            const candidate = this.findTarget(point.x, point.y);
+            if (candidate) {
+                this.target = candidate;
+                this.dwelled = 0;
+                this.lostSince = null;
+            } else if (this.target) {
+                // Hold progress for a short grace period so a jittery sample doesn't reset the dwell.
+                this.lostSince ??= timestamp;
+                if (timestamp - this.lostSince > this.settings.gracePeriod) {
+                    this.reset();
+                    this.lastTimestamp = timestamp;
+                    return idle;
+                }
+            } else {
+                return idle;
+            }
+        }
+
+        const target = this.target!;
+        const progress = Math.min(1, this.dwelled / getDwellTime(target, this.settings.dwellTime));
+        if (progress >= 1) {
+            this.reset();
+            this.lastTimestamp = timestamp;
+            this.cooldownUntil = timestamp + this.settings.cooldown;
+            return { target, progress: 1, fired: target };
+        }
+        return { target, progress, fired: null };
+    }
+}
+
+// Dispatches a synthetic click at the given screen point, as if the user had clicked there.
+export const dispatchGazeClick = (element: Element, x: number, y: number) => {
+    const init: MouseEventInit = { bubbles: true, cancelable: true, view: window, clientX: x, clientY: y };
+    element.dispatchEvent(new MouseEvent('mousedown', init));
+    element.dispatchEvent(new MouseEvent('mouseup', init));
+    element.dispatchEvent(new MouseEvent('click', init));
+};
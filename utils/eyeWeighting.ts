@@ -0,0 +1,84 @@
+import type { CalibrationPointData, DominantEye, EyeSide, GazeVector } from '../types';
+
+// Eye aspect ratios mapped to an openness of 0 and 1; half-closed lids drag the iris landmarks.
+const OPENNESS_RANGE = { closed: 0.15, open: 0.25 };
+// An eye weighted below this is dropped and tracking continues on the other one.
+export const MIN_EYE_WEIGHT = 0.3;
+// Smoothing of the frame-to-frame iris movement used to judge stability.
+const JITTER_ALPHA = 0.2;
+const JITTER_EPSILON = 1e-3;
+
+export type EyeWeights = Record<EyeSide, number>;
+
+export interface EyeWeightingResult {
+    weights: EyeWeights; // Sum to 1
+    reliable: Record<EyeSide, boolean>;
+}
+
+export const DOMINANT_EYE_LABELS: Record<DominantEye, string> = {
+    none: 'None (weighted)',
+    right: 'Right eye',
+    left: 'Left eye',
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const weightedAverage = (vectors: Record<EyeSide, GazeVector>, weights: EyeWeights): GazeVector => ({
+    x: vectors.right.x * weights.right + vectors.left.x * weights.left,
+    y: vectors.right.y * weights.right + vectors.left.y * weights.left,
+});
+
+// Calibration averages for a point. With one eye closed throughout, the combined vector is the open
+// eye's alone, as eye weighting produces at run time, and there are no per-eye models for the point.
+export const combineEyeAverages = (right: GazeVector | null, left: GazeVector | null): Pick<CalibrationPointData, 'avgGaze' | 'avgGazeRight' | 'avgGazeLeft'> | null => {
+    if (right && left) return { avgGaze: { x: (right.x + left.x) / 2, y: (right.y + left.y) / 2 }, avgGazeRight: right, avgGazeLeft: left };
+    if (right) return { avgGaze: right };
+    if (left) return { avgGaze: left };
+    return null;
+};
+
+/**
+ * Weighs the two eyes by openness and iris stability. Stability is relative: both irises move
+ * together during a saccade, so only an eye that jitters more than its partner loses weight.
+ * An unreliable eye gets weight 0 while the other one is usable.
+ */
+export class EyeWeighting {
+    private jitter: EyeWeights = { right: 0, left: 0 };
+    private previous: Record<EyeSide, GazeVector> | null = null;
+
+    reset() {
+        this.jitter = { right: 0, left: 0 };
+        this.previous = null;
+    }
+
+    update(vectors: Record<EyeSide, GazeVector>, aspectRatios: EyeWeights | null, dominantEye: DominantEye): EyeWeightingResult {
+        if (this.previous) {
+            for (const eye of ['right', 'left'] as EyeSide[]) {
+                const step = Math.hypot(vectors[eye].x - this.previous[eye].x, vectors[eye].y - this.previous[eye].y);
+                this.jitter[eye] += JITTER_ALPHA * (step - this.jitter[eye]);
+            }
+        }
+        this.previous = vectors;
+
+        const quality = (eye: EyeSide, other: EyeSide) => {
+            const openness = aspectRatios
+                ? clamp01((aspectRatios[eye] - OPENNESS_RANGE.closed) / (OPENNESS_RANGE.open - OPENNESS_RANGE.closed))
+                : 1;
+            const stability = Math.min(1, (this.jitter[other] + JITTER_EPSILON) / (this.jitter[eye] + JITTER_EPSILON));
+            return openness * stability;
+        };
+        const raw: EyeWeights = { right: quality('right', 'left'), left: quality('left', 'right') };
+        const reliable = { right: raw.right >= MIN_EYE_WEIGHT, left: raw.left >= MIN_EYE_WEIGHT };
+        const only = (eye: EyeSide): EyeWeightingResult => ({ weights: { right: eye === 'right' ? 1 : 0, left: eye === 'left' ? 1 : 0 }, reliable });
+
+        // A usable dominant eye is tracked on its own.
+        if (dominantEye !== 'none' && reliable[dominantEye]) return only(dominantEye);
+        if (reliable.right && !reliable.left) return only('right');
+        if (reliable.left && !reliable.right) return only('left');
+
+        // Both usable, or neither: blend them, falling back to an even split.
+        const total = raw.right + raw.left;
+        const weights = total > 1e-6 ? { right: raw.right / total, left: raw.left / total } : { right: 0.5, left: 0.5 };
+        return { weights, reliable };
+    }
+}
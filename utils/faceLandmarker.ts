@@ -0,0 +1,26 @@
+import { FaceLandmarker, FilesetResolver } from '@mediapipe/tasks-vision';
+
+const WASM_BASE_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm";
+const MODEL_ASSET_PATH = "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
+
+export interface FaceLandmarkerOptions {
+    runningMode: "IMAGE" | "VIDEO";
+    numFaces?: number;
+    outputFaceBlendshapes?: boolean;
+}
+
+// Creates a landmarker with the project's shared model and settings. Still images and video
+// need separate instances because a landmarker is bound to a single running mode at a time.
+export const createFaceLandmarker = async (options: FaceLandmarkerOptions): Promise<FaceLandmarker> => {
+    const filesetResolver = await FilesetResolver.forVisionTasks(WASM_BASE_URL);
+    return FaceLandmarker.createFromOptions(filesetResolver, {
+        baseOptions: {
+            modelAssetPath: MODEL_ASSET_PATH,
+            delegate: "GPU"
+        },
+        outputFaceBlendshapes: options.outputFaceBlendshapes ?? false,
+        outputFacialTransformationMatrixes: true,
+        runningMode: options.runningMode,
+        numFaces: options.numFaces ?? 1
+    });
+};
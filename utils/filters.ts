@@ -0,0 +1,210 @@
+import type { GazeFilterSettings } from '../types';
+
+export interface Point2D {
+    x: number;
+    y: number;
+}
+
+/**
+ * Smooths a stream of 2D samples. Timestamps are in milliseconds and come from the
+ * video frames, so filters adapt to the real frame rate instead of assuming one.
+ */
+export interface GazeFilter {
+    filter(value: Point2D, timestamp: number): Point2D;
+    reset(): void;
+}
+
+export const DEFAULT_FILTER_SETTINGS: GazeFilterSettings = {
+    kind: 'ema',
+    target: 'vectors',
+    ema: { alpha: 0.2 },
+    // One Euro beta and the Kalman noises are in the units of the filtered signal; these
+    // defaults suit the gaze vectors, which span roughly ±10 units.
+    oneEuro: { minCutoff: 1.0, beta: 0.05, dCutoff: 1.0 },
+    kalman: { processNoise: 100, measurementNoise: 1 },
+};
+
+// Frame interval the EMA alpha is defined against.
+const REFERENCE_FRAME_MS = 1000 / 30;
+
+// Elapsed seconds since the previous sample, guarding against repeated or out-of-order timestamps.
+const elapsedSeconds = (timestamp: number, lastTimestamp: number | null) => {
+    if (lastTimestamp === null) return REFERENCE_FRAME_MS / 1000;
+    return Math.max(timestamp - lastTimestamp, 1) / 1000;
+};
+
+// --- Pass-through ---
+
+export class NoopFilter implements GazeFilter {
+    filter(value: Point2D) {
+        return value;
+    }
+
+    reset() {}
+}
+
+// --- Exponential Moving Average ---
+
+export class EmaFilter implements GazeFilter {
+    private state: Point2D | null = null;
+    private lastTimestamp: number | null = null;
+
+    constructor(private alpha: number) {}
+
+    filter(value: Point2D, timestamp: number) {
+        if (!this.state) {
+            this.state = { ...value };
+        } else {
+            // Rescale alpha so that smoothing strength is the same at any frame rate.
+            const frames = elapsedSeconds(timestamp, this.lastTimestamp) * 1000 / REFERENCE_FRAME_MS;
+            const alpha = 1 - Math.pow(1 - this.alpha, frames);
+            this.state = {
+                x: alpha * value.x + (1 - alpha) * this.state.x,
+                y: alpha * value.y + (1 - alpha) * this.state.y,
+            };
+        }
+        this.lastTimestamp = timestamp;
+        return this.state;
+    }
+
+    reset() {
+        this.state = null;
+        this.lastTimestamp = null;
+    }
+}
+
+// --- One Euro Filter (Casiez et al., 2012) ---
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+    const r = 2 * Math.PI * cutoff * dt;
+    return r / (r + 1);
+};
+
+class OneEuroAxis {
+    private x: number | null = null;
+    private dx = 0;
+
+    constructor(private minCutoff: number, private beta: number, private dCutoff: number) {}
+
+    filter(value: number, dt: number) {
+        if (this.x === null) {
+            this.x = value;
+            return value;
+        }
+        // Estimate the speed, then raise the cutoff when moving fast to cut lag during saccades.
+        const rawDx = (value - this.x) / dt;
+        this.dx = this.dx + smoothingFactor(dt, this.dCutoff) * (rawDx - this.dx);
+        const cutoff = this.minCutoff + this.beta * Math.abs(this.dx);
+        this.x = this.x + smoothingFactor(dt, cutoff) * (value - this.x);
+        return this.x;
+    }
+
+    reset() {
+        this.x = null;
+        this.dx = 0;
+    }
+}
+
+export class OneEuroFilter implements GazeFilter {
+    private axisX: OneEuroAxis;
+    private axisY: OneEuroAxis;
+    private lastTimestamp: number | null = null;
+
+    constructor(minCutoff: number, beta: number, dCutoff: number) {
+        this.axisX = new OneEuroAxis(minCutoff, beta, dCutoff);
+        this.axisY = new OneEuroAxis(minCutoff, beta, dCutoff);
+    }
+
+    filter(value: Point2D, timestamp: number) {
+        const dt = elapsedSeconds(timestamp, this.lastTimestamp);
+        this.lastTimestamp = timestamp;
+        return { x: this.axisX.filter(value.x, dt), y: this.axisY.filter(value.y, dt) };
+    }
+
+    reset() {
+        this.axisX.reset();
+        this.axisY.reset();
+        this.lastTimestamp = null;
+    }
+}
+
+// --- Constant-Velocity Kalman Filter ---
+
+// Tracks [position, velocity] for one axis with a 2x2 covariance.
+class KalmanAxis {
+    private position: number | null = null;
+    private velocity = 0;
+    private p00 = 1;
+    private p01 = 0;
+    private p11 = 1;
+
+    constructor(private processNoise: number, private measurementNoise: number) {}
+
+    filter(measurement: number, dt: number) {
+        if (this.position === null) {
+            this.position = measurement;
+            this.velocity = 0;
+            this.p00 = this.measurementNoise;
+            this.p01 = 0;
+            this.p11 = 1;
+            return measurement;
+        }
+
+        // Predict: x = F x, P = F P Fᵀ + Q, with F = [[1, dt], [0, 1]] and white-acceleration noise.
+        this.position += this.velocity * dt;
+        const q = this.processNoise;
+        const dt2 = dt * dt;
+        const p00 = this.p00 + dt * (2 * this.p01 + dt * this.p11) + q * dt2 * dt2 / 4;
+        const p01 = this.p01 + dt * this.p11 + q * dt2 * dt / 2;
+        const p11 = this.p11 + q * dt2;
+
+        // Update with the position measurement.
+        const innovation = measurement - this.position;
+        const s = p00 + this.measurementNoise;
+        const k0 = p00 / s;
+        const k1 = p01 / s;
+        this.position += k0 * innovation;
+        this.velocity += k1 * innovation;
+        this.p00 = (1 - k0) * p00;
+        this.p01 = (1 - k0) * p01;
+        this.p11 = p11 - k1 * p01;
+        return this.position;
+    }
+
+    reset() {
+        this.position = null;
+        this.velocity = 0;
+    }
+}
+
+export class KalmanFilter implements GazeFilter {
+    private axisX: KalmanAxis;
+    private axisY: KalmanAxis;
+    private lastTimestamp: number | null = null;
+
+    constructor(processNoise: number, measurementNoise: number) {
+        this.axisX = new KalmanAxis(processNoise, measurementNoise);
+        this.axisY = new KalmanAxis(processNoise, measurementNoise);
+    }
+
+    filter(value: Point2D, timestamp: number) {
+        const dt = elapsedSeconds(timestamp, this.lastTimestamp);
+        this.lastTimestamp = timestamp;
+        return { x: this.axisX.filter(value.x, dt), y: this.axisY.filter(value.y, dt) };
+    }
+
+    reset() {
+        this.axisX.reset();
+        this.axisY.reset();
+        this.lastTimestamp = null;
+    }
+}
+
+export const createGazeFilter = (settings: GazeFilterSettings): GazeFilter => {
+    switch (settings.kind) {
+        case 'none': return new NoopFilter();
+        case 'ema': return new EmaFilter(settings.ema.alpha);
+        case 'one_euro': return new OneEuroFilter(settings.oneEuro.minCutoff, settings.oneEuro.beta, settings.oneEuro.dCutoff);
+        case 'kalman': return new KalmanFilter(settings.kalman.processNoise, settings.kalman.measurementNoise);
+    }
+};
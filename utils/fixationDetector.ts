@@ -0,0 +1,247 @@
+import type { FixationEvent, GazeEvent, GazeEventThresholds, SaccadeEvent, ScreenGeometry } from '../types';
+
+export interface TimedGazeSample {
+    x: number; // Screen pixels
+    y: number;
+    timestamp: number; // Milliseconds
+}
+
+export const DEFAULT_SCREEN_GEOMETRY: ScreenGeometry = {
+    pixelsPerCm: 96 / 2.54, // CSS reference pixel density
+    viewingDistanceCm: 60,
+};
+
+export const DEFAULT_GAZE_EVENT_THRESHOLDS: GazeEventThresholds = {
+    algorithm: 'ivt',
+    unit: 'degrees',
+    velocityThreshold: 30,    // °/s, a common I-VT default
+    dispersionThreshold: 1.0, // °, a common I-DT default
+    minFixationDuration: 100, // ms
+};
+
+// Converts a distance on screen to the visual angle it subtends at the viewing distance.
+export const pixelsToDegrees = (pixels: number, geometry: ScreenGeometry) => {
+    const cm = pixels / geometry.pixelsPerCm;
+    return 2 * Math.atan(cm / (2 * geometry.viewingDistanceCm)) * 180 / Math.PI;
+};
+
+export const degreesToPixels = (degrees: number, geometry: ScreenGeometry) => {
+    const cm = 2 * geometry.viewingDistanceCm * Math.tan(degrees * Math.PI / 360);
+    return cm * geometry.pixelsPerCm;
+};
+
+// Maximum horizontal plus vertical extent of a set of samples (Salvucci & Goldberg, 2000).
+const dispersionOf = (samples: TimedGazeSample[]) => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const s of samples) {
+        minX = Math.min(minX, s.x);
+        maxX = Math.max(maxX, s.x);
+        minY = Math.min(minY, s.y);
+        maxY = Math.max(maxY, s.y);
+    }
+    return (maxX - minX) + (maxY - minY);
+};
+
+// Running bounds, sums and time span of an open fixation, so a long fixation is neither
+// stored sample by sample nor rescanned on every new sample.
+class FixationExtent {
+    count = 0;
+    startTime = 0;
+    endTime = 0;
+    private sumX = 0;
+    private sumY = 0;
+    private minX = Infinity;
+    private maxX = -Infinity;
+    private minY = Infinity;
+    private maxY = -Infinity;
+
+    static of(samples: TimedGazeSample[]) {
+        const extent = new FixationExtent();
+        samples.forEach(s => extent.add(s));
+        return extent;
+    }
+
+    add(sample: TimedGazeSample) {
+        if (this.count === 0) this.startTime = sample.timestamp;
+        this.endTime = sample.timestamp;
+        this.count++;
+        this.sumX += sample.x;
+        this.sumY += sample.y;
+        this.minX = Math.min(this.minX, sample.x);
+        this.maxX = Math.max(this.maxX, sample.x);
+        this.minY = Math.min(this.minY, sample.y);
+        this.maxY = Math.max(this.maxY, sample.y);
+    }
+
+    get dispersion() {
+        return (this.maxX - this.minX) + (this.maxY - this.minY);
+    }
+
+    // Dispersion the fixation would have if the sample joined it.
+    dispersionWith(sample: TimedGazeSample) {
+        return (Math.max(this.maxX, sample.x) - Math.min(this.minX, sample.x))
+            + (Math.max(this.maxY, sample.y) - Math.min(this.minY, sample.y));
+    }
+
+    get centroid() {
+        return { x: this.sumX / this.count, y: this.sumY / this.count };
+    }
+}
+
+type GazeEventListener = (event: GazeEvent) => void;
+
+/**
+ * Classifies a timestamped gaze stream into fixations and saccades using either
+ * I-VT (velocity threshold) or I-DT (dispersion threshold). Feed samples with
+ * addSample(); events are delivered to subscribers as they are detected.
+ */
+export class FixationDetector {
+    private thresholds: GazeEventThresholds;
+    private geometry: ScreenGeometry;
+    private listeners = new Set<GazeEventListener>();
+    // Candidate samples until they span a fixation; an open fixation only keeps its extent.
+    private window: TimedGazeSample[] = [];
+    private fixation: FixationExtent | null = null;
+    private lastFixationEnd: { x: number; y: number; timestamp: number } | null = null;
+    private previousSample: TimedGazeSample | null = null;
+
+    constructor(thresholds: GazeEventThresholds = DEFAULT_GAZE_EVENT_THRESHOLDS, geometry: ScreenGeometry = DEFAULT_SCREEN_GEOMETRY) {
+        this.thresholds = thresholds;
+        this.geometry = geometry;
+    }
+
+    subscribe(listener: GazeEventListener) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    configure(thresholds: GazeEventThresholds, geometry: ScreenGeometry = this.geometry) {
+        this.flush();
+        this.thresholds = thresholds;
+        this.geometry = geometry;
+    }
+
+    // Closes any open fixation, e.g. when tracking is lost, and forgets buffered samples.
+    flush() {
+        if (this.fixation) this.endFixation();
+        this.window = [];
+        this.previousSample = null;
+    }
+
+    addSample(sample: TimedGazeSample) {
+        if (this.thresholds.algorithm === 'ivt') {
+            this.addSampleIvt(sample);
+        } else {
+            this.addSampleIdt(sample);
+        }
+        this.previousSample = sample;
+    }
+
+    private emit(event: GazeEvent) {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    private toThresholdUnit(pixels: number) {
+        return this.thresholds.unit === 'degrees' ? pixelsToDegrees(pixels, this.geometry) : pixels;
+    }
+
+    private makeFixation(type: FixationEvent['type'], extent: FixationExtent): FixationEvent {
+        return {
+            type,
+            timestamp: type === 'fixationStart' ? extent.startTime : extent.endTime,
+            startTime: extent.startTime,
+            duration: extent.endTime - extent.startTime,
+            centroid: extent.centroid,
+            dispersion: this.toThresholdUnit(extent.dispersion),
+            sampleCount: extent.count,
+            algorithm: this.thresholds.algorithm,
+        };
+    }
+
+    private startFixation() {
+        this.fixation = FixationExtent.of(this.window);
+        this.window = [];
+        const fixation = this.makeFixation('fixationStart', this.fixation);
+        // The saccade is the movement between the previous fixation and this one.
+        if (this.lastFixationEnd) {
+            const from = this.lastFixationEnd;
+            const to = fixation.centroid;
+            const amplitudePx = Math.hypot(to.x - from.x, to.y - from.y);
+            const duration = fixation.startTime - from.timestamp;
+            const amplitude = this.toThresholdUnit(amplitudePx);
+            const saccade: SaccadeEvent = {
+                type: 'saccade',
+                timestamp: fixation.startTime,
+                startTime: from.timestamp,
+                duration,
+                from: { x: from.x, y: from.y },
+                to,
+                amplitude,
+                averageVelocity: duration > 0 ? amplitude / (duration / 1000) : 0,
+                algorithm: this.thresholds.algorithm,
+            };
+            this.emit(saccade);
+        }
+        this.emit(fixation);
+    }
+
+    private endFixation() {
+        if (!this.fixation) return;
+        const fixation = this.makeFixation('fixationEnd', this.fixation);
+        this.fixation = null;
+        this.lastFixationEnd = { ...fixation.centroid, timestamp: fixation.startTime + fixation.duration };
+        this.emit(fixation);
+    }
+
+    // --- I-VT: samples below the velocity threshold belong to a fixation ---
+    private addSampleIvt(sample: TimedGazeSample) {
+        const prev = this.previousSample;
+        if (!prev || sample.timestamp <= prev.timestamp) {
+            this.endFixation();
+            this.window = [sample];
+            return;
+        }
+        const distancePx = Math.hypot(sample.x - prev.x, sample.y - prev.y);
+        const velocity = this.toThresholdUnit(distancePx) / ((sample.timestamp - prev.timestamp) / 1000);
+
+        if (velocity < this.thresholds.velocityThreshold) {
+            if (this.fixation) {
+                this.fixation.add(sample);
+                return;
+            }
+            this.window.push(sample);
+            if (sample.timestamp - this.window[0].timestamp >= this.thresholds.minFixationDuration) {
+                this.startFixation();
+            }
+        } else {
+            this.endFixation();
+            this.window = [sample];
+        }
+    }
+
+    // --- I-DT: a window whose dispersion stays under the threshold is a fixation ---
+    private addSampleIdt(sample: TimedGazeSample) {
+        const maxDispersion = this.thresholds.dispersionThreshold;
+
+        if (this.fixation) {
+            if (this.toThresholdUnit(this.fixation.dispersionWith(sample)) > maxDispersion) {
+                // The new sample broke the fixation; close it without that sample.
+                this.endFixation();
+                this.window = [sample];
+            } else {
+                this.fixation.add(sample);
+            }
+            return;
+        }
+
+        this.window.push(sample);
+        // Drop samples from the front until the window is compact again.
+        while (this.window.length > 1 && this.toThresholdUnit(dispersionOf(this.window)) > maxDispersion) {
+            this.window.shift();
+        }
+        const duration = sample.timestamp - this.window[0].timestamp;
+        if (duration >= this.thresholds.minFixationDuration) {
+            this.startFixation();
+        }
+    }
+}
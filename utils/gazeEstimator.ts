@@ -0,0 +1,349 @@
+import type { NormalizedLandmark, CalibrationData, NormalizedGazePoint, TranslationVector, GazeVector, HeadPose, GazeMapperModel, GazeFilterSettings, DominantEye, EyeSide } from '../types';
+import { restoreGazeMapper, type GazeMapper } from './gazeMappers';
+import { createGazeFilter, DEFAULT_FILTER_SETTINGS, type GazeFilter } from './filters';
+import { extractHeadPose } from './headPose';
+import { applyImplicitCorrection } from './implicitCalibration';
+import { EyeWeighting, weightedAverage, type EyeWeights } from './eyeWeighting';
+
+export interface GazeEstimatorOptions {
+    filterSettings?: GazeFilterSettings;
+}
+
+export interface GazeEstimateInput {
+    landmarks: NormalizedLandmark[];
+    transformationMatrix?: { data: number[] };
+    width: number;  // Frame width in pixels, used to de-normalize landmarks
+    height: number; // Frame height in pixels
+    timestamp: number; // Frame timestamp in milliseconds, used by the smoothing filters
+    calibration?: CalibrationData | null;
+    highSensitivity?: boolean;
+    holdGaze?: boolean; // Repeat the last estimate instead of measuring, e.g. while the eyes are closed
+    eyeAspectRatios?: EyeWeights; // Lid opening per eye, e.g. from the blink detector; weighs each eye's contribution
+    dominantEye?: DominantEye;
+}
+
+export interface EyeEstimate {
+    center: { x: number; y: number }; // Eye center in frame pixels
+    radius: number;                   // Half the eye width in frame pixels
+    rawVector: GazeVector;            // Head-pose corrected, unsmoothed gaze vector
+    vector: GazeVector;               // Filtered gaze vector
+}
+
+export interface GazeEstimate {
+    rightEye: EyeEstimate;
+    leftEye: EyeEstimate;
+    origin: { x: number; y: number }; // Midpoint between the eyes in frame pixels
+    combinedVector: GazeVector;        // Quality-weighted average of the two filtered eye vectors
+    headPose: HeadPose | null;
+    eyeWeights: EyeWeights;                  // Contribution of each eye; one is 0 while tracking monocularly
+    reliableEyes: Record<EyeSide, boolean>;  // Eyes open and stable enough to track with
+    point: NormalizedGazePoint;
+    calibratedPoint: NormalizedGazePoint | null; // Mapper output before implicit correction, smoothing and clamping; null when uncalibrated
+    unclampedPoint: NormalizedGazePoint; // The final point before it was clamped to the screen
+    held: boolean; // True when this repeats an earlier estimate because gaze was on hold
+}
+
+/**
+ * Turns face landmarks and the facial transformation matrix into per-eye gaze vectors and
+ * a normalized on-screen gaze point. Each instance keeps its own smoothing state, so several
+ * estimators can run side by side.
+ */
+export class GazeEstimator {
+    private filterSettings: GazeFilterSettings;
+    private rightEyeFilter: GazeFilter;
+    private leftEyeFilter: GazeFilter;
+    private pointFilter: GazeFilter;
+    // Mappers are rebuilt only when a calibration's model payload changes.
+    private mappers = new WeakMap<GazeMapperModel, GazeMapper>();
+    private eyeWeighting = new EyeWeighting();
+    private lastEstimate: GazeEstimate | null = null;
+
+    constructor(options: GazeEstimatorOptions = {}) {
+        this.filterSettings = options.filterSettings ?? DEFAULT_FILTER_SETTINGS;
+        this.rightEyeFilter = createGazeFilter(this.filterSettings);
+        this.leftEyeFilter = createGazeFilter(this.filterSettings);
+        this.pointFilter = createGazeFilter(this.filterSettings);
+    }
+
+    // Swaps in new filters; safe to call between frames to tune smoothing at runtime.
+    setFilterSettings(settings: GazeFilterSettings) {
+        this.filterSettings = settings;
+        this.rightEyeFilter = createGazeFilter(settings);
+        this.leftEyeFilter = createGazeFilter(settings);
+        this.pointFilter = createGazeFilter(settings);
+    }
+
+    // Clears the smoothing state, e.g. when the face is lost.
+    reset() {
+        this.rightEyeFilter.reset();
+        this.leftEyeFilter.reset();
+        this.pointFilter.reset();
+        this.eyeWeighting.reset();
+        this.lastEstimate = null;
+    }
+
+    private getMapper(model: GazeMapperModel | undefined): GazeMapper | null {
+        if (!model) return null;
+        let mapper = this.mappers.get(model);
+        if (!mapper) {
+            mapper = restoreGazeMapper(model);
+            this.mappers.set(model, mapper);
+        }
+        return mapper;
+    }
+
+    // Maps each contributing eye with its own model and blends the results by eye weight.
+    private mapPerEye(
+        eyeMappers: Record<EyeSide, GazeMapperModel>,
+        vectors: Record<EyeSide, GazeVector>,
+        weights: EyeWeights,
+        headPose: HeadPose | null
+    ): NormalizedGazePoint | null {
+        let u = 0, v = 0;
+        for (const eye of ['right', 'left'] as EyeSide[]) {
+            if (weights[eye] === 0) continue;
+            const predicted = this.getMapper(eyeMappers[eye])?.predict({ gaze: vectors[eye], headPose });
+            if (!predicted) return null;
+            u += predicted.u * weights[eye];
+            v += predicted.v * weights[eye];
+        }
+        return { u, v };
+    }
+
+    private filterPoint(point: NormalizedGazePoint, timestamp: number): NormalizedGazePoint {
+        if (this.filterSettings.target === 'vectors') return point;
+        const filtered = this.pointFilter.filter({ x: point.u, y: point.v }, timestamp);
+        return { u: filtered.x, v: filtered.y };
+    }
+
+    estimate(input: GazeEstimateInput): GazeEstimate | null {
+        const { landmarks, transformationMatrix, width, height, timestamp, calibration, highSensitivity = false, holdGaze = false, eyeAspectRatios, dominantEye = 'none' } = input;
+
+        if (!landmarks || landmarks.length <= 473) {
+            this.reset();
+            return null;
+        }
+
+        const rightEyeOuterCorner = landmarks[133];
+        const rightEyeInnerCorner = landmarks[33];
+        const rightIrisCenter = landmarks[468];
+
+        const leftEyeOuterCorner = landmarks[263];
+        const leftEyeInnerCorner = landmarks[362];
+        const leftIrisCenter = landmarks[473];
+
+        if (!(rightEyeOuterCorner && rightEyeInnerCorner && leftEyeOuterCorner && leftEyeInnerCorner && rightIrisCenter && leftIrisCenter)) {
+            this.reset();
+            return null;
+        }
+
+        // Half-closed lids drag the iris landmarks, so keep the last stable output and leave
+        // the filters untouched until the measurement can be trusted again.
+        if (holdGaze && this.lastEstimate) {
+            return { ...this.lastEstimate, held: true };
+        }
+
+        // --- Right Eye ---
+        const rightEyeWidth = Math.hypot(
+            (rightEyeOuterCorner.x - rightEyeInnerCorner.x) * width,
+            (rightEyeOuterCorner.y - rightEyeInnerCorner.y) * height
+        );
+        const rightEyeRadius = rightEyeWidth / 2;
+        const rightEyeCenterX = (rightEyeOuterCorner.x + rightEyeInnerCorner.x) / 2 * width;
+        const rightEyeCenterY = (rightEyeOuterCorner.y + rightEyeInnerCorner.y) / 2 * height;
+
+        // --- Left Eye ---
+        const leftEyeWidth = Math.hypot(
+            (leftEyeOuterCorner.x - leftEyeInnerCorner.x) * width,
+            (leftEyeOuterCorner.y - leftEyeInnerCorner.y) * height
+        );
+        const leftEyeRadius = leftEyeWidth / 2;
+        const leftEyeCenterX = (leftEyeOuterCorner.x + leftEyeInnerCorner.x) / 2 * width;
+        const leftEyeCenterY = (leftEyeOuterCorner.y + leftEyeInnerCorner.y) / 2 * height;
+
+        const rightIrisX = rightIrisCenter.x * width;
+        const rightIrisY = rightIrisCenter.y * height;
+        const leftIrisX = leftIrisCenter.x * width;
+        const leftIrisY = leftIrisCenter.y * height;
+
+        // The raw gaze vector is calculated in 3D and then rotated into a stable
+        // canonical head space to remove the influence of head rotation.
+        let rawVec_R = { x: rightEyeCenterX - rightIrisX, y: rightIrisY - rightEyeCenterY };
+        let rawVec_L = { x: leftEyeCenterX - leftIrisX, y: leftIrisY - leftEyeCenterY };
+
+        // With learned compensation the vectors stay in head space and the calibration model
+        // accounts for head pose, so the hand-tuned corrections below are skipped.
+        const fixedCompensation = calibration?.headCompensation !== 'learned';
+
+        let translation: TranslationVector | null = null;
+        const headPose = transformationMatrix?.data ? extractHeadPose(transformationMatrix) : null;
+        if (transformationMatrix?.data) {
+            const m = transformationMatrix.data;
+            // The transformation matrix is column-major. Translation is in elements 12, 13, 14.
+            translation = { x: m[12], y: m[13], z: m[14] };
+
+            // De-normalize landmark coordinates to create 3D vectors in pixel space.
+            const rightEyeOuterCorner_3d = { x: landmarks[133].x * width, y: landmarks[133].y * height, z: landmarks[133].z * width };
+            const rightEyeInnerCorner_3d = { x: landmarks[33].x * width, y: landmarks[33].y * height, z: landmarks[33].z * width };
+            const rightIrisCenter_3d = { x: landmarks[468].x * width, y: landmarks[468].y * height, z: landmarks[468].z * width };
+
+            const leftEyeOuterCorner_3d = { x: landmarks[263].x * width, y: landmarks[263].y * height, z: landmarks[263].z * width };
+            const leftEyeInnerCorner_3d = { x: landmarks[362].x * width, y: landmarks[362].y * height, z: landmarks[362].z * width };
+            const leftIrisCenter_3d = { x: landmarks[473].x * width, y: landmarks[473].y * height, z: landmarks[473].z * width };
+
+            const rightEyeCenter_3d = {
+                x: (rightEyeOuterCorner_3d.x + rightEyeInnerCorner_3d.x) / 2,
+                y: (rightEyeOuterCorner_3d.y + rightEyeInnerCorner_3d.y) / 2,
+                z: (rightEyeOuterCorner_3d.z + rightEyeInnerCorner_3d.z) / 2,
+            };
+            const leftEyeCenter_3d = {
+                x: (leftEyeOuterCorner_3d.x + leftEyeInnerCorner_3d.x) / 2,
+                y: (leftEyeOuterCorner_3d.y + leftEyeInnerCorner_3d.y) / 2,
+                z: (leftEyeOuterCorner_3d.z + leftEyeInnerCorner_3d.z) / 2,
+            };
+
+            const gazeVector_R_3d = {
+                x: rightIrisCenter_3d.x - rightEyeCenter_3d.x,
+                y: rightIrisCenter_3d.y - rightEyeCenter_3d.y,
+                z: rightIrisCenter_3d.z - rightEyeCenter_3d.z,
+            };
+            const gazeVector_L_3d = {
+                x: leftIrisCenter_3d.x - leftEyeCenter_3d.x,
+                y: leftIrisCenter_3d.y - leftEyeCenter_3d.y,
+                z: leftIrisCenter_3d.z - leftEyeCenter_3d.z,
+            };
+
+            // Transform the world-space gaze vector into the head's local coordinate system.
+            // This is done by multiplying by the inverse (transpose) of the head's rotation matrix.
+            const stabilized_R_3d = {
+                x: m[0] * gazeVector_R_3d.x + m[1] * gazeVector_R_3d.y + m[2] * gazeVector_R_3d.z,
+                y: m[4] * gazeVector_R_3d.x + m[5] * gazeVector_R_3d.y + m[6] * gazeVector_R_3d.z,
+                z: m[8] * gazeVector_R_3d.x + m[9] * gazeVector_R_3d.y + m[10] * gazeVector_R_3d.z,
+            };
+            const stabilized_L_3d = {
+                x: m[0] * gazeVector_L_3d.x + m[1] * gazeVector_L_3d.y + m[2] * gazeVector_L_3d.z,
+                y: m[4] * gazeVector_L_3d.x + m[5] * gazeVector_L_3d.y + m[6] * gazeVector_L_3d.z,
+                z: m[8] * gazeVector_L_3d.x + m[9] * gazeVector_L_3d.y + m[10] * gazeVector_L_3d.z,
+            };
+
+            // --- Parallax Correction for Head Pitch (Flexion/Extension) ---
+            // The user wants the cursor to follow head rotation. The original correction
+            // moved it in the opposite direction. By flipping the sign of the rotation
+            // (applying a rotation of -pitch instead of +pitch), we make the cursor
+            // move in the same direction as the head's pitch.
+            const pitch = fixedCompensation ? Math.atan2(m[6], m[10]) : 0;
+            const cosPitch = Math.cos(pitch);
+            const sinPitch = Math.sin(pitch);
+            const pitchCorrected_R_3d = {
+                x: stabilized_R_3d.x,
+                y: stabilized_R_3d.y * cosPitch + stabilized_R_3d.z * sinPitch,
+                z: -stabilized_R_3d.y * sinPitch + stabilized_R_3d.z * cosPitch
+            };
+            const pitchCorrected_L_3d = {
+                x: stabilized_L_3d.x,
+                y: stabilized_L_3d.y * cosPitch + stabilized_L_3d.z * sinPitch,
+                z: -stabilized_L_3d.y * sinPitch + stabilized_L_3d.z * cosPitch
+            };
+
+            // --- Parallax Correction for Head Translation (Side-to-side/Up-down) ---
+            // This compensates for the perspective shift when the head moves. The gaze vector
+            // is adjusted so that the cursor follows the head's movement proportionally.
+            const TRANSLATION_CORRECTION_X_FACTOR = 0.8; // Sensitivity for horizontal movement
+            const TRANSLATION_CORRECTION_Y_FACTOR = 0.8; // Sensitivity for vertical movement
+
+            let poseCorrected_R_3d = { ...pitchCorrected_R_3d };
+            let poseCorrected_L_3d = { ...pitchCorrected_L_3d };
+
+            if (fixedCompensation && Math.abs(translation.z) > 0.1) { // Avoid division by zero
+                // Note: translation.z is negative, so -translation.z is the positive distance.
+                const offsetX = TRANSLATION_CORRECTION_X_FACTOR * (translation.x / -translation.z);
+                const offsetY = TRANSLATION_CORRECTION_Y_FACTOR * (translation.y / -translation.z);
+
+                // We adjust the x and y components of the stabilized 3D gaze vector.
+                // Head moves right (tx > 0) -> cursor should shift right.
+                // Head moves up (ty > 0) -> cursor should shift up.
+                poseCorrected_R_3d.x += offsetX;
+                poseCorrected_R_3d.y -= offsetY;
+                poseCorrected_L_3d.x += offsetX;
+                poseCorrected_L_3d.y -= offsetY;
+            }
+
+            const STABILIZATION_SCALAR = 4;
+            rawVec_R = { x: -poseCorrected_R_3d.x * STABILIZATION_SCALAR, y: poseCorrected_R_3d.y * STABILIZATION_SCALAR };
+            rawVec_L = { x: -poseCorrected_L_3d.x * STABILIZATION_SCALAR, y: poseCorrected_L_3d.y * STABILIZATION_SCALAR };
+        }
+
+        // Apply smoothing to the raw vectors
+        const filterVectors = this.filterSettings.target !== 'screen';
+        const vec_R = filterVectors ? this.rightEyeFilter.filter(rawVec_R, timestamp) : rawVec_R;
+        const vec_L = filterVectors ? this.leftEyeFilter.filter(rawVec_L, timestamp) : rawVec_L;
+
+        // --- Third Eye (Cyclops) Origin ---
+        const thirdEyeCenterX = (rightEyeCenterX + leftEyeCenterX) / 2;
+        const thirdEyeCenterY = (rightEyeCenterY + leftEyeCenterY) / 2;
+
+        // Blend the two SMOOTHED eye vectors by eye quality; stability is judged on the raw ones.
+        const { weights: eyeWeights, reliable: reliableEyes } = this.eyeWeighting.update(
+            { right: rawVec_R, left: rawVec_L }, eyeAspectRatios ?? null, dominantEye
+        );
+        const { x: avgVecX, y: avgVecY } = weightedAverage({ right: vec_R, left: vec_L }, eyeWeights);
+
+        // --- Gaze Follower Calculation ---
+        let point: NormalizedGazePoint;
+        let unclampedPoint: NormalizedGazePoint;
+
+        // Use advanced mapping if a mapper was fitted during calibration
+        // Per-eye models are preferred; the binocular model covers profiles saved without them.
+        const mapped = (calibration?.eyeMappers && this.mapPerEye(calibration.eyeMappers, { right: vec_R, left: vec_L }, eyeWeights, headPose))
+            ?? this.getMapper(calibration?.mapper)?.predict({ gaze: { x: avgVecX, y: avgVecY }, headPose });
+        if (mapped) {
+            const corrected = calibration.implicitCorrection ? applyImplicitCorrection(calibration.implicitCorrection, mapped) : mapped;
+            unclampedPoint = this.filterPoint(corrected, timestamp);
+            const { u, v } = unclampedPoint;
+
+            // Clamp values to be within the screen [0, 1] to prevent the follower from going off-screen.
+            point = {
+                u: Math.max(0, Math.min(1, u)),
+                v: Math.max(0, Math.min(1, v)),
+            };
+        } else { // Fallback to simpler projection method if not fully calibrated
+            const GAZE_PROJECTION_STRENGTH = highSensitivity ? 60 : 30;
+            const REFERENCE_INTER_OCULAR_DISTANCE = 120; // in pixels
+
+            const interOcularDistance = Math.hypot(leftEyeCenterX - rightEyeCenterX, leftEyeCenterY - rightEyeCenterY);
+            const dynamicSensitivity = (interOcularDistance > 10)
+                ? GAZE_PROJECTION_STRENGTH * (REFERENCE_INTER_OCULAR_DISTANCE / interOcularDistance)
+                : GAZE_PROJECTION_STRENGTH;
+            const gazePointX = thirdEyeCenterX + avgVecX * dynamicSensitivity;
+            const gazePointY = thirdEyeCenterY + avgVecY * dynamicSensitivity;
+
+            point = this.filterPoint({ u: gazePointX / width, v: gazePointY / height }, timestamp);
+            unclampedPoint = point;
+        }
+
+        this.lastEstimate = {
+            rightEye: {
+                center: { x: rightEyeCenterX, y: rightEyeCenterY },
+                radius: rightEyeRadius,
+                rawVector: rawVec_R,
+                vector: vec_R,
+            },
+            leftEye: {
+                center: { x: leftEyeCenterX, y: leftEyeCenterY },
+                radius: leftEyeRadius,
+                rawVector: rawVec_L,
+                vector: vec_L,
+            },
+            origin: { x: thirdEyeCenterX, y: thirdEyeCenterY },
+            combinedVector: { x: avgVecX, y: avgVecY },
+            headPose,
+            eyeWeights,
+            reliableEyes,
+            point,
+            calibratedPoint: mapped ?? null,
+            unclampedPoint,
+            held: false,
+        };
+        return this.lastEstimate;
+    }
+}
@@ -0,0 +1,408 @@
+import type {
+    GaussianProcessMapperModel,
+    GazeMapperKind,
+    GazeMapperModel,
+    GazeVector,
+    HeadPose,
+    InputStandardization,
+    KnnMapperModel,
+    NormalizedGazePoint,
+    RidgeMapperModel,
+    ThinPlateSplineMapperModel,
+} from '../types';
+import { buildFeatureVector, FEATURE_SET_LAYOUTS, predictWithCoefficients, trainCalibrationModel } from './calibrationModel';
+import { solveLinearSystem } from './regression';
+
+export interface GazeMapperInput {
+    gaze: GazeVector;
+    headPose?: HeadPose | null;
+}
+
+/**
+ * Maps a gaze vector (and optionally head pose) to a normalized screen position.
+ * Implementations are fitted on calibration data and serialise to a GazeMapperModel.
+ */
+export interface GazeMapper {
+    readonly kind: GazeMapperKind;
+    fit(samples: GazeMapperInput[], targets: NormalizedGazePoint[]): boolean;
+    predict(sample: GazeMapperInput): NormalizedGazePoint | null;
+    toModel(): GazeMapperModel | null;
+}
+
+export const GAZE_MAPPER_LABELS: Record<GazeMapperKind, string> = {
+    ridge: 'Ridge Regression',
+    thin_plate_spline: 'Thin-Plate Spline',
+    knn: 'Inverse-Distance kNN',
+    gaussian_process: 'Gaussian Process',
+};
+
+export const DEFAULT_GAZE_MAPPER: GazeMapperKind = 'ridge';
+
+// The non-parametric mappers only look at the 2D gaze vector.
+const GAZE_INPUT_LAYOUT = ['gaze_x', 'gaze_y'];
+
+// --- Shared helpers ---
+
+const computeStandardization = (inputs: number[][]): InputStandardization => {
+    const dims = inputs[0].length;
+    const means = new Array(dims).fill(0).map((_, j) => inputs.reduce((sum, row) => sum + row[j], 0) / inputs.length);
+    const scales = means.map((mean, j) => {
+        const std = Math.sqrt(inputs.reduce((sum, row) => sum + (row[j] - mean) ** 2, 0) / inputs.length);
+        return std > 1e-9 ? std : 1;
+    });
+    return { means, scales };
+};
+
+const toStandardizedInput = (sample: GazeMapperInput, { means, scales }: InputStandardization) =>
+    [sample.gaze.x, sample.gaze.y].map((value, j) => (value - means[j]) / scales[j]);
+
+const squaredDistance = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0);
+
+/**
+ * Leave-one-point-out RMS error of a mapper, in normalized screen units.
+ * Returns null when no fold could be fitted.
+ */
+export const crossValidateMapper = (
+    createMapper: () => GazeMapper,
+    samples: GazeMapperInput[],
+    targets: NormalizedGazePoint[],
+): number | null => {
+    let squaredErrorSum = 0;
+    let folds = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const mapper = createMapper();
+        if (!mapper.fit(samples.filter((_, j) => j !== i), targets.filter((_, j) => j !== i))) continue;
+        const predicted = mapper.predict(samples[i]);
+        if (!predicted) continue;
+        squaredErrorSum += (predicted.u - targets[i].u) ** 2 + (predicted.v - targets[i].v) ** 2;
+        folds++;
+    }
+    return folds > 0 ? Math.sqrt(squaredErrorSum / folds) : null;
+};
+
+// Fits one mapper per candidate setting and keeps the one with the lowest cross-validated error.
+const selectByCrossValidation = <T>(
+    candidates: T[],
+    createMapper: (candidate: T) => GazeMapper,
+    samples: GazeMapperInput[],
+    targets: NormalizedGazePoint[],
+): { candidate: T; error: number | null } => {
+    let best: { candidate: T; error: number | null } = { candidate: candidates[0], error: null };
+    for (const candidate of candidates) {
+        const error = crossValidateMapper(() => createMapper(candidate), samples, targets);
+        if (error !== null && (best.error === null || error < best.error)) best = { candidate, error };
+    }
+    return best;
+};
+
+// --- Ridge Regression ---
+
+export class RidgeGazeMapper implements GazeMapper {
+    readonly kind = 'ridge';
+    private model: RidgeMapperModel | null;
+    private featureLayout: string[];
+
+    constructor(featureLayout: string[] = FEATURE_SET_LAYOUTS.linear, model: RidgeMapperModel | null = null) {
+        this.featureLayout = model?.featureLayout ?? featureLayout;
+        this.model = model;
+    }
+
+    fit(samples: GazeMapperInput[], targets: NormalizedGazePoint[]) {
+        // The trainer already picks lambda by leave-one-point-out cross-validation.
+        const coefficients = trainCalibrationModel(
+            samples.map((s, i) => ({ gaze: s.gaze, headPose: s.headPose ?? undefined, target: targets[i] })),
+            this.featureLayout,
+        );
+        this.model = coefficients
+            ? { kind: 'ridge', featureLayout: this.featureLayout, cvError: coefficients.cvError, coefficients }
+            : null;
+        return !!this.model;
+    }
+
+    predict(sample: GazeMapperInput) {
+        if (!this.model) return null;
+        const features = buildFeatureVector(this.featureLayout, sample.gaze, sample.headPose ?? null);
+        return predictWithCoefficients(this.model.coefficients, features);
+    }
+
+    toModel() {
+        return this.model;
+    }
+}
+
+// --- Thin-Plate Spline ---
+
+// Radial basis U(r) = r² log r, written in terms of r² to avoid a square root.
+const thinPlateKernel = (r2: number) => r2 > 1e-12 ? 0.5 * r2 * Math.log(r2) : 0;
+
+const TPS_SMOOTHING_CANDIDATES = [0, 1e-3, 1e-2, 1e-1, 1];
+
+export class ThinPlateSplineGazeMapper implements GazeMapper {
+    readonly kind = 'thin_plate_spline';
+    private model: ThinPlateSplineMapperModel | null;
+    private smoothing: number | null;
+
+    // Pass a smoothing value to fix it; leave it null to choose one by cross-validation.
+    constructor(smoothing: number | null = null, model: ThinPlateSplineMapperModel | null = null) {
+        this.smoothing = model?.smoothing ?? smoothing;
+        this.model = model;
+    }
+
+    fit(samples: GazeMapperInput[], targets: NormalizedGazePoint[]) {
+        // An affine TPS needs at least three points.
+        if (samples.length < 3) return false;
+
+        let smoothing = this.smoothing;
+        let cvError: number | null = null;
+        if (smoothing === null) {
+            const best = selectByCrossValidation(TPS_SMOOTHING_CANDIDATES, s => new ThinPlateSplineGazeMapper(s), samples, targets);
+            smoothing = best.candidate;
+            cvError = best.error;
+        }
+
+        const standardization = computeStandardization(samples.map(s => [s.gaze.x, s.gaze.y]));
+        const centers = samples.map(s => toStandardizedInput(s, standardization));
+        const n = centers.length;
+
+        // Assemble [[K + λI, P], [Pᵀ, 0]] with P = [1, x, y].
+        const size = n + 3;
+        const A: number[][] = new Array(size).fill(0).map(() => new Array(size).fill(0));
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < n; j++) A[i][j] = thinPlateKernel(squaredDistance(centers[i], centers[j]));
+            A[i][i] += smoothing;
+            const affine = [1, centers[i][0], centers[i][1]];
+            for (let k = 0; k < 3; k++) {
+                A[i][n + k] = affine[k];
+                A[n + k][i] = affine[k];
+            }
+        }
+
+        const weightsU = solveLinearSystem(A, [...targets.map(t => t.u), 0, 0, 0]);
+        const weightsV = solveLinearSystem(A, [...targets.map(t => t.v), 0, 0, 0]);
+        if (!weightsU || !weightsV) {
+            this.model = null;
+            return false;
+        }
+
+        this.model = { kind: 'thin_plate_spline', featureLayout: GAZE_INPUT_LAYOUT, cvError, standardization, centers, weightsU, weightsV, smoothing };
+        return true;
+    }
+
+    predict(sample: GazeMapperInput) {
+        if (!this.model) return null;
+        const { centers, weightsU, weightsV, standardization } = this.model;
+        const x = toStandardizedInput(sample, standardization);
+        const n = centers.length;
+        const basis = [...centers.map(c => thinPlateKernel(squaredDistance(x, c))), 1, x[0], x[1]];
+        let u = 0;
+        let v = 0;
+        for (let i = 0; i < n + 3; i++) {
+            u += basis[i] * weightsU[i];
+            v += basis[i] * weightsV[i];
+        }
+        return { u, v };
+    }
+
+    toModel() {
+        return this.model;
+    }
+}
+
+// --- Inverse-Distance Weighted k-Nearest Neighbours ---
+
+export class KnnGazeMapper implements GazeMapper {
+    readonly kind = 'knn';
+    private model: KnnMapperModel | null;
+    private k: number;
+    private power: number;
+
+    constructor(k = 4, power = 2, model: KnnMapperModel | null = null) {
+        this.k = model?.k ?? k;
+        this.power = model?.power ?? power;
+        this.model = model;
+    }
+
+    fit(samples: GazeMapperInput[], targets: NormalizedGazePoint[]) {
+        if (samples.length === 0) return false;
+        const standardization = computeStandardization(samples.map(s => [s.gaze.x, s.gaze.y]));
+        this.model = {
+            kind: 'knn',
+            featureLayout: GAZE_INPUT_LAYOUT,
+            cvError: null,
+            standardization,
+            inputs: samples.map(s => toStandardizedInput(s, standardization)),
+            targets: targets.map(t => ({ u: t.u, v: t.v })),
+            k: this.k,
+            power: this.power,
+        };
+        // kNN fitting is cheap, so the CV error can be computed directly.
+        if (samples.length > 1) {
+            this.model.cvError = crossValidateMapper(() => new KnnGazeMapper(this.k, this.power), samples, targets);
+        }
+        return true;
+    }
+
+    predict(sample: GazeMapperInput) {
+        if (!this.model) return null;
+        const { inputs, targets, k, power, standardization } = this.model;
+        const x = toStandardizedInput(sample, standardization);
+        const neighbours = inputs
+            .map((input, i) => ({ distance: Math.sqrt(squaredDistance(x, input)), target: targets[i] }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, Math.max(1, Math.min(k, inputs.length)));
+
+        // An exact match would get infinite weight; return it directly.
+        if (neighbours[0].distance < 1e-9) return { ...neighbours[0].target };
+
+        let weightSum = 0;
+        let u = 0;
+        let v = 0;
+        for (const { distance, target } of neighbours) {
+            const weight = 1 / Math.pow(distance, power);
+            weightSum += weight;
+            u += weight * target.u;
+            v += weight * target.v;
+        }
+        return { u: u / weightSum, v: v / weightSum };
+    }
+
+    toModel() {
+        return this.model;
+    }
+}
+
+// --- Gaussian Process (RBF kernel) ---
+
+const GP_LENGTH_SCALE_CANDIDATES = [0.5, 1, 2, 4];
+
+export class GaussianProcessGazeMapper implements GazeMapper {
+    readonly kind = 'gaussian_process';
+    private model: GaussianProcessMapperModel | null;
+    private lengthScale: number | null;
+    private signalVariance: number;
+    private noiseVariance: number;
+
+    // Pass a length scale to fix it; leave it null to choose one by cross-validation.
+    constructor(lengthScale: number | null = null, signalVariance = 0.25, noiseVariance = 1e-3, model: GaussianProcessMapperModel | null = null) {
+        this.lengthScale = model?.lengthScale ?? lengthScale;
+        this.signalVariance = model?.signalVariance ?? signalVariance;
+        this.noiseVariance = model?.noiseVariance ?? noiseVariance;
+        this.model = model;
+    }
+
+    private kernel(a: number[], b: number[], lengthScale: number) {
+        return this.signalVariance * Math.exp(-squaredDistance(a, b) / (2 * lengthScale * lengthScale));
+    }
+
+    fit(samples: GazeMapperInput[], targets: NormalizedGazePoint[]) {
+        if (samples.length === 0) return false;
+
+        let lengthScale = this.lengthScale;
+        let cvError: number | null = null;
+        if (lengthScale === null) {
+            const best = selectByCrossValidation(
+                GP_LENGTH_SCALE_CANDIDATES,
+                l => new GaussianProcessGazeMapper(l, this.signalVariance, this.noiseVariance),
+                samples,
+                targets,
+            );
+            lengthScale = best.candidate;
+            cvError = best.error;
+        }
+
+        const standardization = computeStandardization(samples.map(s => [s.gaze.x, s.gaze.y]));
+        const inputs = samples.map(s => toStandardizedInput(s, standardization));
+        const K = inputs.map((a, i) => inputs.map((b, j) => this.kernel(a, b, lengthScale) + (i === j ? this.noiseVariance : 0)));
+
+        // Predict residuals around the target mean so the GP reverts to the centre far from data.
+        const meanU = targets.reduce((sum, t) => sum + t.u, 0) / targets.length;
+        const meanV = targets.reduce((sum, t) => sum + t.v, 0) / targets.length;
+        const alphaU = solveLinearSystem(K, targets.map(t => t.u - meanU));
+        const alphaV = solveLinearSystem(K, targets.map(t => t.v - meanV));
+        if (!alphaU || !alphaV) {
+            this.model = null;
+            return false;
+        }
+
+        this.model = {
+            kind: 'gaussian_process',
+            featureLayout: GAZE_INPUT_LAYOUT,
+            cvError,
+            standardization,
+            inputs,
+            alphaU,
+            alphaV,
+            meanU,
+            meanV,
+            lengthScale,
+            signalVariance: this.signalVariance,
+            noiseVariance: this.noiseVariance,
+        };
+        return true;
+    }
+
+    predict(sample: GazeMapperInput) {
+        if (!this.model) return null;
+        const { inputs, alphaU, alphaV, meanU, meanV, lengthScale, standardization } = this.model;
+        const x = toStandardizedInput(sample, standardization);
+        let u = meanU;
+        let v = meanV;
+        inputs.forEach((input, i) => {
+            const k = this.kernel(x, input, lengthScale);
+            u += k * alphaU[i];
+            v += k * alphaV[i];
+        });
+        return { u, v };
+    }
+
+    toModel() {
+        return this.model;
+    }
+}
+
+// --- Factories ---
+
+export const createGazeMapper = (kind: GazeMapperKind, featureLayout: string[] = FEATURE_SET_LAYOUTS.linear): GazeMapper => {
+    switch (kind) {
+        case 'ridge': return new RidgeGazeMapper(featureLayout);
+        case 'thin_plate_spline': return new ThinPlateSplineGazeMapper();
+        case 'knn': return new KnnGazeMapper();
+        case 'gaussian_process': return new GaussianProcessGazeMapper();
+    }
+};
+
+// Rebuilds a ready-to-predict mapper from its serialised model.
+export const restoreGazeMapper = (model: GazeMapperModel): GazeMapper => {
+    switch (model.kind) {
+        case 'ridge': return new RidgeGazeMapper(model.featureLayout, model);
+        case 'thin_plate_spline': return new ThinPlateSplineGazeMapper(null, model);
+        case 'knn': return new KnnGazeMapper(undefined, undefined, model);
+        case 'gaussian_process': return new GaussianProcessGazeMapper(null, undefined, undefined, model);
+    }
+};
+
+export const fitGazeMapper = (
+    kind: GazeMapperKind,
+    featureLayout: string[],
+    samples: GazeMapperInput[],
+    targets: NormalizedGazePoint[],
+): GazeMapperModel | null => {
+    const mapper = createGazeMapper(kind, featureLayout);
+    return mapper.fit(samples, targets) ? mapper.toModel() : null;
+};
+
+/**
+ * Fits every mapper kind on the same calibration data and reports each one's
+ * leave-one-point-out error, so mapping quality can be compared directly.
+ */
+export const benchmarkGazeMappers = (
+    featureLayout: string[],
+    samples: GazeMapperInput[],
+    targets: NormalizedGazePoint[],
+): Record<GazeMapperKind, number | null> => {
+    const results = {} as Record<GazeMapperKind, number | null>;
+    for (const kind of Object.keys(GAZE_MAPPER_LABELS) as GazeMapperKind[]) {
+        results[kind] = fitGazeMapper(kind, featureLayout, samples, targets)?.cvError ?? null;
+    }
+    return results;
+};
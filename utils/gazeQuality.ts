@@ -0,0 +1,73 @@
+import type { GazeEyeValidity, GazePoint, GazeQualityFlags } from '../types';
+import type { GazeEstimate } from './gazeEstimator';
+
+// Samples below this confidence should be ignored rather than acted on.
+export const MIN_USABLE_CONFIDENCE = 0.5;
+
+// Beyond these angles (degrees) the iris landmarks become unreliable.
+const EXTREME_YAW = 35;
+const EXTREME_PITCH = 25;
+
+// How far outside the unit square (normalized screen units) an estimate must be to count as off-screen.
+const OFF_SCREEN_MARGIN = 0.05;
+
+// Each flag scales the confidence down; a lost face always gives 0.
+const CONFIDENCE_FACTORS = {
+    blink: 0.2,
+    invalidEye: 0.6, // Per eye
+    extremeHeadPose: 0.4,
+    offScreen: 0.3,
+    clamped: 0.8,
+};
+
+export interface GazeQualityInput {
+    estimate: GazeEstimate;
+    eyesOpen?: GazeEyeValidity; // From the blink detector, when one is running
+    outsideCalibratedRange?: boolean; // From head-pose drift detection
+}
+
+export interface GazeQuality {
+    confidence: number;
+    eyes: GazeEyeValidity;
+    flags: GazeQualityFlags;
+}
+
+export const assessGazeQuality = ({ estimate, eyesOpen, outsideCalibratedRange = false }: GazeQualityInput): GazeQuality => {
+    const { u, v } = estimate.unclampedPoint;
+    const pose = estimate.headPose;
+    const clamped = estimate.calibratedPoint !== null && (u < 0 || u > 1 || v < 0 || v > 1);
+    const flags: GazeQualityFlags = {
+        faceLost: false,
+        blink: estimate.held,
+        extremeHeadPose: outsideCalibratedRange || (!!pose && (Math.abs(pose.yaw) > EXTREME_YAW || Math.abs(pose.pitch) > EXTREME_PITCH)),
+        offScreen: u < -OFF_SCREEN_MARGIN || u > 1 + OFF_SCREEN_MARGIN || v < -OFF_SCREEN_MARGIN || v > 1 + OFF_SCREEN_MARGIN,
+        clamped,
+    };
+    // The estimator only produces an estimate when both irises were found, so openness decides validity.
+    const eyes: GazeEyeValidity = {
+        right: !flags.blink && (eyesOpen?.right ?? true) && estimate.reliableEyes.right,
+        left: !flags.blink && (eyesOpen?.left ?? true) && estimate.reliableEyes.left,
+    };
+
+    let confidence = 1;
+    if (flags.blink) confidence *= CONFIDENCE_FACTORS.blink;
+    if (!eyes.right) confidence *= CONFIDENCE_FACTORS.invalidEye;
+    if (!eyes.left) confidence *= CONFIDENCE_FACTORS.invalidEye;
+    if (flags.extremeHeadPose) confidence *= CONFIDENCE_FACTORS.extremeHeadPose;
+    if (flags.offScreen) confidence *= CONFIDENCE_FACTORS.offScreen;
+    else if (flags.clamped) confidence *= CONFIDENCE_FACTORS.clamped;
+
+    return { confidence, eyes, flags };
+};
+
+// Repeats the last known position for a frame without a face, so consumers see the loss as a sample.
+export const markFaceLost = (last: GazePoint, timestamp: number): GazePoint => ({
+    x: last.x,
+    y: last.y,
+    timestamp,
+    confidence: 0,
+    eyes: { right: false, left: false },
+    flags: { ...last.flags, faceLost: true, blink: false },
+});
+
+export const isUsableGazeSample = (point: GazePoint) => !point.flags.faceLost && point.confidence >= MIN_USABLE_CONFIDENCE;
@@ -0,0 +1,26 @@
+import type { GazePoint } from '../types';
+
+type GazeStoreListener = () => void;
+
+/**
+ * Holds the latest gaze point outside React state, so a new sample on every frame only
+ * re-renders the components that subscribe to it. The subscribe/getSnapshot pair has the
+ * shape useSyncExternalStore expects and is bound to the instance.
+ */
+export class GazeStore {
+    private point: GazePoint | null = null;
+    private listeners = new Set<GazeStoreListener>();
+
+    subscribe = (listener: GazeStoreListener) => {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    };
+
+    getSnapshot = () => this.point;
+
+    publish(point: GazePoint | null) {
+        if (point === this.point) return;
+        this.point = point;
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -0,0 +1,210 @@
+import type { CalibrationData, GazeEyeValidity, GazeMapperKind, GazePoint, GazeQualityFlags, GazeStreamEvent, GazeStreamingSettings, ValidationMetrics } from '../types';
+import { toValidationMetrics } from './calibrationValidation';
+
+// --- Protocol ---
+// Every message is one JSON text frame with a "type" field. Timestamps are milliseconds on the
+// page's performance clock, onto which video files and replays map their media time so it keeps
+// increasing across seeks; add the hello message's timeOrigin to get Unix epoch milliseconds.
+// Bump the version whenever a field changes meaning or goes away; new fields may be added freely.
+export const GAZE_STREAM_PROTOCOL_VERSION = 1;
+
+export const DEFAULT_GAZE_STREAMING_SETTINGS: GazeStreamingSettings = {
+    enabled: false,
+    url: 'ws://localhost:8765',
+};
+
+// Sent first on every (re)connect, never buffered.
+export interface HelloMessage {
+    type: 'hello';
+    protocol: number;
+    timeOrigin: number;
+    viewport: { width: number; height: number; devicePixelRatio: number };
+    droppedMessages: number; // Messages discarded from the buffer since the previous connection
+}
+
+export interface GazeMessage {
+    type: 'gaze';
+    timestamp: number;
+    x: number; // CSS pixels from the viewport's top-left corner
+    y: number;
+    u: number; // The same position normalized to the viewport, 0..1
+    v: number;
+    confidence: number;
+    eyes: GazeEyeValidity;
+    flags: GazeQualityFlags;
+}
+
+export interface EventMessage {
+    type: 'event';
+    timestamp: number;
+    event: GazeStreamEvent;
+}
+
+export interface CalibrationStatusMessage {
+    type: 'calibration';
+    timestamp: number;
+    calibrating: boolean;
+    calibrated: boolean;
+    mapper: GazeMapperKind | null;
+    validation: ValidationMetrics | null; // From the most recent validation run, if any
+}
+
+export type GazeStreamMessage = HelloMessage | GazeMessage | EventMessage | CalibrationStatusMessage;
+
+export const toGazeMessage = (point: GazePoint): GazeMessage => ({
+    type: 'gaze',
+    timestamp: point.timestamp,
+    x: point.x,
+    y: point.y,
+    u: point.x / window.innerWidth,
+    v: point.y / window.innerHeight,
+    confidence: point.confidence,
+    eyes: point.eyes,
+    flags: point.flags,
+});
+
+export const toCalibrationStatusMessage = (calibration: CalibrationData | null, calibrating: boolean): CalibrationStatusMessage => ({
+    type: 'calibration',
+    timestamp: performance.now(),
+    calibrating,
+    calibrated: !!calibration?.mapper,
+    mapper: calibration?.mapper?.kind ?? null,
+    validation: calibration?.validation ? toValidationMetrics(calibration.validation) : null,
+});
+
+// --- Client ---
+
+// About a minute of gaze at 30fps; the oldest messages are dropped beyond this.
+export const MAX_BUFFERED_MESSAGES = 2000;
+const RECONNECT_DELAY = { initial: 500, max: 10000 };
+
+export type GazeStreamStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface GazeStreamState {
+    status: GazeStreamStatus;
+    buffered: number;
+}
+
+type GazeStreamStateListener = (state: GazeStreamState) => void;
+
+export const isGazeStreamUrl = (url: string) => {
+    try {
+        const { protocol } = new URL(url);
+        return protocol === 'ws:' || protocol === 'wss:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Sends gaze stream messages to a WebSocket endpoint. While the connection is down, messages
+ * are buffered and the client reconnects with exponential backoff; the buffer is flushed,
+ * after a fresh hello, as soon as it is back.
+ */
+export class GazeStreamClient {
+    private url: string | null = null;
+    private socket: WebSocket | null = null;
+    private buffer: GazeStreamMessage[] = [];
+    private dropped = 0;
+    private attempt = 0;
+    private reconnectTimer: number | null = null;
+    private state: GazeStreamState = { status: 'disconnected', buffered: 0 };
+    private listeners = new Set<GazeStreamStateListener>();
+
+    subscribe(listener: GazeStreamStateListener) {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    getState() {
+        return this.state;
+    }
+
+    connect(url: string) {
+        if (!isGazeStreamUrl(url)) throw new Error(`"${url}" is not a ws:// or wss:// URL.`);
+        this.disconnect();
+        this.url = url;
+        this.open();
+    }
+
+    // Closes the connection for good and discards anything still buffered.
+    disconnect() {
+        this.url = null;
+        this.attempt = 0;
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close(1000);
+        this.buffer = [];
+        this.dropped = 0;
+        this.setState('disconnected');
+    }
+
+    send(message: GazeStreamMessage) {
+        if (!this.url) return;
+        if (this.socket?.readyState === WebSocket.OPEN) {
+            this.socket.send(JSON.stringify(message));
+            return;
+        }
+        this.buffer.push(message);
+        if (this.buffer.length > MAX_BUFFERED_MESSAGES) {
+            this.buffer.shift();
+            this.dropped++;
+        }
+        this.setState(this.state.status);
+    }
+
+    private setState(status: GazeStreamStatus) {
+        this.state = { status, buffered: this.buffer.length };
+        this.listeners.forEach(listener => listener(this.state));
+    }
+
+    private open() {
+        if (!this.url) return;
+        this.reconnectTimer = null;
+        this.setState(this.attempt === 0 ? 'connecting' : 'reconnecting');
+
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+        socket.onopen = () => {
+            if (this.socket !== socket) return;
+            this.attempt = 0;
+            this.sendHello(socket);
+            this.buffer.forEach(message => socket.send(JSON.stringify(message)));
+            this.buffer = [];
+            this.setState('connected');
+        };
+        // Browsers follow an error with close, but not every WebSocket implementation does.
+        const handleClosed = () => {
+            if (this.socket !== socket) return;
+            this.socket = null;
+            socket.close();
+            this.scheduleReconnect();
+        };
+        socket.onerror = handleClosed;
+        socket.onclose = handleClosed;
+    }
+
+    private sendHello(socket: WebSocket) {
+        const hello: HelloMessage = {
+            type: 'hello',
+            protocol: GAZE_STREAM_PROTOCOL_VERSION,
+            timeOrigin: performance.timeOrigin,
+            viewport: { width: window.innerWidth, height: window.innerHeight, devicePixelRatio: window.devicePixelRatio },
+            droppedMessages: this.dropped,
+        };
+        socket.send(JSON.stringify(hello));
+        this.dropped = 0;
+    }
+
+    private scheduleReconnect() {
+        if (!this.url) return;
+        const delay = Math.min(RECONNECT_DELAY.max, RECONNECT_DELAY.initial * 2 ** this.attempt);
+        this.attempt++;
+        this.reconnectTimer = window.setTimeout(() => this.open(), delay);
+        this.setState('reconnecting');
+    }
+}
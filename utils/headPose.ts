@@ -0,0 +1,37 @@
+import type { HeadPose } from '../types';
+
+const RAD_TO_DEG = 180 / Math.PI;
+
+/**
+ * Decomposes MediaPipe's column-major facial transformation matrix into a head translation
+ * and yaw/pitch/roll angles in degrees.
+ */
+export const extractHeadPose = (transformationMatrix: { data: number[] }): HeadPose => {
+    const m = transformationMatrix.data;
+    return {
+        translation: { x: m[12], y: m[13], z: m[14] },
+        yaw: Math.atan2(-m[2], Math.hypot(m[6], m[10])) * RAD_TO_DEG,
+        pitch: Math.atan2(m[6], m[10]) * RAD_TO_DEG,
+        roll: Math.atan2(m[1], m[0]) * RAD_TO_DEG,
+    };
+};
+
+export const averageHeadPoses = (poses: HeadPose[]): HeadPose | undefined => {
+    if (poses.length === 0) return undefined;
+    const n = poses.length;
+    const sum = poses.reduce((acc, p) => {
+        acc.x += p.translation.x;
+        acc.y += p.translation.y;
+        acc.z += p.translation.z;
+        acc.yaw += p.yaw;
+        acc.pitch += p.pitch;
+        acc.roll += p.roll;
+        return acc;
+    }, { x: 0, y: 0, z: 0, yaw: 0, pitch: 0, roll: 0 });
+    return {
+        translation: { x: sum.x / n, y: sum.y / n, z: sum.z / n },
+        yaw: sum.yaw / n,
+        pitch: sum.pitch / n,
+        roll: sum.roll / n,
+    };
+};
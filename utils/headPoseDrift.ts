@@ -0,0 +1,107 @@
+import type { FaceBox, HeadPose, HeadPoseReference, NormalizedLandmark } from '../types';
+
+// How far the live pose may stray beyond the calibrated range. Translation is in the
+// transformation matrix's units (roughly centimeters); angles are in degrees.
+export const HEAD_POSE_TOLERANCE = {
+    lateral: 4, // x and y translation
+    depth: 8,   // z translation
+    turn: 10,   // yaw and pitch
+    roll: 12,
+};
+
+// Once outside, the pose must come back this far inside the tolerance before it counts as recovered.
+const RECOVERY_FRACTION = 0.75;
+
+type PoseComponent = 'x' | 'y' | 'z' | 'yaw' | 'pitch' | 'roll';
+
+const POSE_COMPONENTS: Record<PoseComponent, { tolerance: number; get: (pose: HeadPose) => number }> = {
+    x: { tolerance: HEAD_POSE_TOLERANCE.lateral, get: p => p.translation.x },
+    y: { tolerance: HEAD_POSE_TOLERANCE.lateral, get: p => p.translation.y },
+    z: { tolerance: HEAD_POSE_TOLERANCE.depth, get: p => p.translation.z },
+    yaw: { tolerance: HEAD_POSE_TOLERANCE.turn, get: p => p.yaw },
+    pitch: { tolerance: HEAD_POSE_TOLERANCE.turn, get: p => p.pitch },
+    roll: { tolerance: HEAD_POSE_TOLERANCE.roll, get: p => p.roll },
+};
+
+export interface HeadPoseSample {
+    headPose: HeadPose;
+    faceBox: FaceBox;
+}
+
+export interface HeadPoseCheck {
+    withinTolerance: boolean;
+    hints: string[]; // Short instructions for getting back, empty while within tolerance
+}
+
+export const measureFaceBox = (landmarks: NormalizedLandmark[]): FaceBox => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const l of landmarks) {
+        minX = Math.min(minX, l.x);
+        maxX = Math.max(maxX, l.x);
+        minY = Math.min(minY, l.y);
+        maxY = Math.max(maxY, l.y);
+    }
+    return { x: (minX + maxX) / 2, y: (minY + maxY) / 2, width: maxX - minX, height: maxY - minY };
+};
+
+const composePose = (values: (component: PoseComponent) => number): HeadPose => ({
+    translation: { x: values('x'), y: values('y'), z: values('z') },
+    yaw: values('yaw'),
+    pitch: values('pitch'),
+    roll: values('roll'),
+});
+
+const getComponent = (pose: HeadPose, key: PoseComponent) => POSE_COMPONENTS[key].get(pose);
+
+export const buildHeadPoseReference = (samples: HeadPoseSample[]): HeadPoseReference | undefined => {
+    if (samples.length === 0) return undefined;
+    const values = (key: PoseComponent) => samples.map(s => getComponent(s.headPose, key));
+    const average = (items: number[]) => items.reduce((a, b) => a + b, 0) / items.length;
+    return {
+        mean: composePose(key => average(values(key))),
+        min: composePose(key => Math.min(...values(key))),
+        max: composePose(key => Math.max(...values(key))),
+        faceBox: {
+            x: average(samples.map(s => s.faceBox.x)),
+            y: average(samples.map(s => s.faceBox.y)),
+            width: average(samples.map(s => s.faceBox.width)),
+            height: average(samples.map(s => s.faceBox.height)),
+        },
+    };
+};
+
+/**
+ * Compares the live head pose with the calibrated range, with hysteresis so the
+ * warning doesn't flicker at the edge of the tolerance box.
+ */
+export class HeadPoseMonitor {
+    private outside = false;
+
+    update(reference: HeadPoseReference, pose: HeadPose): HeadPoseCheck {
+        const scale = this.outside ? RECOVERY_FRACTION : 1;
+        // Signed distance beyond the tolerance box per component; 0 while inside.
+        const excess = (key: PoseComponent) => {
+            const { tolerance } = POSE_COMPONENTS[key];
+            const value = getComponent(pose, key);
+            const low = getComponent(reference.min, key) - tolerance * scale;
+            const high = getComponent(reference.max, key) + tolerance * scale;
+            return value < low ? value - low : value > high ? value - high : 0;
+        };
+
+        const hints: string[] = [];
+        if (excess('x') !== 0 || excess('y') !== 0) hints.push('Move back into the outline');
+        // The camera looks down -z, so a more negative z is further away.
+        const depth = excess('z');
+        if (depth < 0) hints.push('Move closer to the screen');
+        if (depth > 0) hints.push('Move back from the screen');
+        if (excess('yaw') !== 0 || excess('pitch') !== 0) hints.push('Face the screen directly');
+        if (excess('roll') !== 0) hints.push('Level your head');
+
+        this.outside = hints.length > 0;
+        return { withinTolerance: !this.outside, hints };
+    }
+
+    reset() {
+        this.outside = false;
+    }
+}
@@ -0,0 +1,103 @@
+import type { ImplicitCorrection, NormalizedGazePoint } from '../types';
+import { ridgeRegression } from './regression';
+
+// Gaze is sampled from this window before a click; the eyes usually land on a target
+// a few hundred milliseconds before the button press.
+const CLICK_GAZE_WINDOW = { startMs: 400, endMs: 50 };
+const MIN_WINDOW_SAMPLES = 3;
+// A click only counts if the gaze was steady before it and roughly where the click landed;
+// anything else suggests the user clicked without looking.
+const MAX_FIXATION_SPREAD = 0.05;
+const MAX_CLICK_DISTANCE = 0.2;
+// Only the most recent clicks are kept, so the correction tracks drift instead of averaging it away.
+const MAX_CLICK_PAIRS = 30;
+// Pull towards the explicit calibration; with few clicks the correction stays close to identity.
+const CORRECTION_LAMBDA = 2;
+// The correction is never allowed to move the gaze point further than this anywhere on screen.
+export const MAX_IMPLICIT_DRIFT = 0.08;
+
+// Points at which the drift of an affine correction is measured. Its largest shift lies on a corner.
+const DRIFT_PROBES: NormalizedGazePoint[] = [
+    { u: 0, v: 0 },
+    { u: 1, v: 0 },
+    { u: 0, v: 1 },
+    { u: 1, v: 1 },
+];
+
+const HISTORY_MS = CLICK_GAZE_WINDOW.startMs * 2;
+
+interface TimedPoint {
+    point: NormalizedGazePoint;
+    time: number;
+}
+
+interface ClickPair {
+    gaze: NormalizedGazePoint;
+    click: NormalizedGazePoint;
+}
+
+export const applyImplicitCorrection = (correction: ImplicitCorrection, point: NormalizedGazePoint): NormalizedGazePoint => ({
+    u: correction.u[0] * point.u + correction.u[1] * point.v + correction.u[2],
+    v: correction.v[0] * point.u + correction.v[1] * point.v + correction.v[2],
+});
+
+const measureDrift = (u: number[], v: number[]) => Math.max(...DRIFT_PROBES.map(p => {
+    const corrected = applyImplicitCorrection({ u, v, clickCount: 0, drift: 0 }, p);
+    return Math.hypot(corrected.u - p.u, corrected.v - p.v);
+}));
+
+/**
+ * Treats trusted clicks as likely gaze locations and fits a small affine correction from the
+ * calibrated gaze point to where the user clicked. The fit is regularized towards the identity,
+ * and scaled back whenever it would drift further than MAX_IMPLICIT_DRIFT from the explicit calibration.
+ */
+export class ImplicitRecalibrator {
+    private history: TimedPoint[] = [];
+    private pairs: ClickPair[] = [];
+
+    // Records the calibrated, uncorrected gaze point; times are on the performance.now() clock.
+    addGaze(point: NormalizedGazePoint, time: number) {
+        this.history.push({ point, time });
+        while (this.history.length > 0 && time - this.history[0].time > HISTORY_MS) {
+            this.history.shift();
+        }
+    }
+
+    // Pairs a click with the preceding gaze and refits. Returns null if the click was not usable.
+    addClick(click: NormalizedGazePoint, time: number): ImplicitCorrection | null {
+        const preceding = this.history.filter(s => s.time >= time - CLICK_GAZE_WINDOW.startMs && s.time <= time - CLICK_GAZE_WINDOW.endMs);
+        if (preceding.length < MIN_WINDOW_SAMPLES) return null;
+
+        const gaze = {
+            u: preceding.reduce((sum, s) => sum + s.point.u, 0) / preceding.length,
+            v: preceding.reduce((sum, s) => sum + s.point.v, 0) / preceding.length,
+        };
+        const spread = Math.max(...preceding.map(s => Math.hypot(s.point.u - gaze.u, s.point.v - gaze.v)));
+        if (spread > MAX_FIXATION_SPREAD || Math.hypot(click.u - gaze.u, click.v - gaze.v) > MAX_CLICK_DISTANCE) return null;
+
+        this.pairs.push({ gaze, click });
+        if (this.pairs.length > MAX_CLICK_PAIRS) this.pairs.shift();
+        return this.fit();
+    }
+
+    // Forgets all clicks, e.g. after an explicit calibration replaced the model they were paired with.
+    reset() {
+        this.history = [];
+        this.pairs = [];
+    }
+
+    private fit(): ImplicitCorrection | null {
+        // Fitting the residual with ridge shrinks the correction towards the identity.
+        const X = this.pairs.map(p => [p.gaze.u, p.gaze.v, 1]);
+        const du = ridgeRegression(X, this.pairs.map(p => p.click.u - p.gaze.u), CORRECTION_LAMBDA);
+        const dv = ridgeRegression(X, this.pairs.map(p => p.click.v - p.gaze.v), CORRECTION_LAMBDA);
+        if (!du || !dv) return null;
+
+        // The shift is linear in the residual coefficients, so scaling them caps the drift exactly.
+        const unscaledDrift = measureDrift([1 + du[0], du[1], du[2]], [dv[0], 1 + dv[1], dv[2]]);
+        const scale = unscaledDrift > MAX_IMPLICIT_DRIFT ? MAX_IMPLICIT_DRIFT / unscaledDrift : 1;
+        const u = [1 + du[0] * scale, du[1] * scale, du[2] * scale];
+        const v = [dv[0] * scale, 1 + dv[1] * scale, dv[2] * scale];
+        return { u, v, clickCount: this.pairs.length, drift: measureDrift(u, v) };
+    }
+}
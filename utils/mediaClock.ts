@@ -0,0 +1,28 @@
+// Smallest step between two timestamps, so consumers never see a zero or negative interval.
+const MIN_STEP_MS = 1;
+
+/**
+ * Maps a video file's media time onto the performance.now() clock that GazePoint timestamps use.
+ * Within a stretch of playback the intervals follow the media, so frame spacing is exact however
+ * late a frame is processed. After a seek, or when the media time runs backwards, the mapping is
+ * re-anchored at the current time, so timestamps only ever increase.
+ */
+export class MediaClock {
+    private anchor: { time: number; mediaTime: number } | null = null;
+    private lastTimestamp = -Infinity;
+
+    // Call when playback jumps; the next frame starts a new stretch.
+    reset() {
+        this.anchor = null;
+    }
+
+    // mediaTime in seconds, as reported by requestVideoFrameCallback; now on the performance.now() clock.
+    toTimestamp(mediaTime: number, now: number) {
+        if (!this.anchor || mediaTime < this.anchor.mediaTime) {
+            this.anchor = { time: Math.max(now, this.lastTimestamp + MIN_STEP_MS), mediaTime };
+        }
+        const timestamp = Math.max(this.anchor.time + (mediaTime - this.anchor.mediaTime) * 1000, this.lastTimestamp + MIN_STEP_MS);
+        this.lastTimestamp = timestamp;
+        return timestamp;
+    }
+}
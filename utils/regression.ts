@@ -0,0 +1,79 @@
+// --- Matrix Math Utilities for Ridge Regression ---
+export type Matrix = number[][];
+export type Vector = number[];
+
+const transpose = (matrix: Matrix): Matrix => {
+    return matrix[0].map((_, colIndex) => matrix.map(row => row[colIndex]));
+};
+const multiply = (a: Matrix, b: Matrix): Matrix => {
+    const aNumRows = a.length, aNumCols = a[0].length;
+    const bNumRows = b.length, bNumCols = b[0].length;
+    if (aNumCols !== bNumRows) throw new Error("Matrix dimensions are not compatible for multiplication.");
+    const result: Matrix = new Array(aNumRows).fill(0).map(() => new Array(bNumCols).fill(0));
+    for (let r = 0; r < aNumRows; r++) for (let c = 0; c < bNumCols; c++) for (let i = 0; i < aNumCols; i++) result[r][c] += a[r][i] * b[i][c];
+    return result;
+};
+const multiplyVector = (matrix: Matrix, vector: Vector): Vector => {
+    const numRows = matrix.length, numCols = matrix[0].length;
+    if (numCols !== vector.length) throw new Error("Matrix and vector dimensions are not compatible.");
+    const result: Vector = new Array(numRows).fill(0);
+    for (let r = 0; r < numRows; r++) for (let c = 0; c < numCols; c++) result[r] += matrix[r][c] * vector[c];
+    return result;
+};
+const add = (a: Matrix, b: Matrix): Matrix => {
+    const numRows = a.length, numCols = a[0].length;
+    if (numRows !== b.length || numCols !== b[0].length) throw new Error("Matrix dimensions must be same for addition.");
+    const result: Matrix = new Array(numRows).fill(0).map(() => new Array(numCols).fill(0));
+    for (let r = 0; r < numRows; r++) for (let c = 0; c < numCols; c++) result[r][c] = a[r][c] + b[r][c];
+    return result;
+};
+const identity = (size: number): Matrix => {
+    const result: Matrix = new Array(size).fill(0).map(() => new Array(size).fill(0));
+    for (let i = 0; i < size; i++) result[i][i] = 1;
+    return result;
+};
+const scalarMultiply = (matrix: Matrix, scalar: number): Matrix => matrix.map(row => row.map(val => val * scalar));
+export const invert = (matrix: Matrix): Matrix | null => {
+    const n = matrix.length;
+    if (n === 0 || n !== matrix[0].length) return null;
+    const augmented: Matrix = matrix.map((row, i) => [...row, ...identity(n)[i]]);
+    for (let i = 0; i < n; i++) {
+        let maxRow = i;
+        for (let k = i + 1; k < n; k++) if (Math.abs(augmented[k][i]) > Math.abs(augmented[maxRow][i])) maxRow = k;
+        [augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]];
+        const pivot = augmented[i][i];
+        if (Math.abs(pivot) < 1e-10) return null; // Singular
+        for (let j = i; j < 2 * n; j++) augmented[i][j] /= pivot;
+        for (let k = 0; k < n; k++) {
+            if (k !== i) {
+                const factor = augmented[k][i];
+                for (let j = i; j < 2 * n; j++) augmented[k][j] -= factor * augmented[i][j];
+            }
+        }
+    }
+    return augmented.map(row => row.slice(n));
+};
+// Columns listed in unpenalized (e.g. an intercept) are left out of the ridge penalty.
+export const ridgeRegression = (X: Matrix, y: Vector, lambda: number, unpenalized: number[] = []): Vector | null => {
+    try {
+        const XT = transpose(X);
+        const XTX = multiply(XT, X);
+        const lambdaI = scalarMultiply(identity(XTX.length), lambda);
+        for (const column of unpenalized) lambdaI[column][column] = 0;
+        const term1_inv = invert(add(XTX, lambdaI));
+        if (!term1_inv) {
+            console.error("Matrix is singular, cannot perform regression.");
+            return null;
+        }
+        const term2 = multiply(term1_inv, XT);
+        return multiplyVector(term2, y);
+    } catch (e) {
+        console.error("Error during ridge regression:", e);
+        return null;
+    }
+};
+// Solves A·x = b for a square system. Returns null if A is singular.
+export const solveLinearSystem = (A: Matrix, b: Vector): Vector | null => {
+    const inverse = invert(A);
+    return inverse ? multiplyVector(inverse, b) : null;
+};
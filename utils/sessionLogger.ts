@@ -0,0 +1,127 @@
+import type { GazePoint, GazeSessionLog, GazeSessionMetadata, GazeStreamEvent } from '../types';
+
+export const SESSION_LOG_FORMAT = 'react-eye-tracker/gaze-log';
+export const SESSION_LOG_VERSION = 1;
+
+// About an hour at 30fps; later samples are dropped to bound memory.
+export const MAX_LOGGED_SAMPLES = 108000;
+
+/**
+ * Buffers gaze samples and events for export. Timestamps are rebased so the first logged item
+ * is at 0, whatever clock the source uses; the log stays available after stop() until the next start().
+ */
+export class SessionLogger {
+    private log: GazeSessionLog | null = null;
+    private startTimestamp: number | null = null;
+    private logging = false;
+
+    get isLogging() {
+        return this.logging;
+    }
+
+    get sampleCount() {
+        return this.log?.samples.length ?? 0;
+    }
+
+    get eventCount() {
+        return this.log?.events.length ?? 0;
+    }
+
+    getLog() {
+        return this.log;
+    }
+
+    start(metadata: GazeSessionMetadata) {
+        this.startTimestamp = null;
+        this.log = {
+            format: SESSION_LOG_FORMAT,
+            version: SESSION_LOG_VERSION,
+            startedAt: Date.now(),
+            endedAt: null,
+            metadata,
+            samples: [],
+            events: [],
+        };
+        this.logging = true;
+    }
+
+    // Settings and the calibration can change mid-session; the log keeps the latest ones.
+    updateMetadata(patch: Partial<GazeSessionMetadata>) {
+        if (this.log && this.logging) this.log.metadata = { ...this.log.metadata, ...patch };
+    }
+
+    addSample(point: GazePoint, aois: string[] = []) {
+        if (!this.log || !this.logging || this.log.samples.length >= MAX_LOGGED_SAMPLES) return;
+        this.startTimestamp ??= point.timestamp;
+        const { viewportWidth, viewportHeight } = this.log.metadata;
+        this.log.samples.push({
+            timestamp: point.timestamp - this.startTimestamp,
+            x: point.x,
+            y: point.y,
+            u: point.x / viewportWidth,
+            v: point.y / viewportHeight,
+            confidence: point.confidence,
+            eyes: point.eyes,
+            flags: point.flags,
+            aois,
+            rightEyeVector: point.eyeVectors?.right ?? null,
+            leftEyeVector: point.eyeVectors?.left ?? null,
+            headPose: point.headPose ?? null,
+        });
+    }
+
+    addEvent(event: GazeStreamEvent) {
+        if (!this.log || !this.logging) return;
+        this.startTimestamp ??= event.timestamp;
+        const origin = this.startTimestamp;
+        this.log.events.push({ ...event, timestamp: event.timestamp - origin, startTime: event.startTime - origin });
+    }
+
+    stop() {
+        if (this.log && this.logging) this.log.endedAt = Date.now();
+        this.logging = false;
+        return this.log;
+    }
+}
+
+// --- Export ---
+
+export const CSV_COLUMNS = [
+    'timestamp_ms', 'x_px', 'y_px', 'x_norm', 'y_norm', 'confidence', 'valid_right', 'valid_left',
+    'right_vec_x', 'right_vec_y', 'left_vec_x', 'left_vec_y', 'head_yaw', 'head_pitch', 'head_roll',
+    'face_lost', 'blink', 'extreme_head_pose', 'off_screen', 'clamped', 'fixation_id', 'aois',
+];
+
+const fixed = (value: number | undefined, digits: number) => value === undefined ? '' : value.toFixed(digits);
+const flag = (value: boolean) => value ? '1' : '0';
+const quote = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Numbers the completed fixations from 1 and labels each sample with the one it falls in.
+const fixationIds = (log: GazeSessionLog) => {
+    const fixations = log.events
+        .filter(e => e.type === 'fixationEnd')
+        .map(e => ({ start: e.startTime, end: e.startTime + e.duration }))
+        .sort((a, b) => a.start - b.start);
+    let index = 0;
+    return log.samples.map(sample => {
+        while (index < fixations.length && fixations[index].end < sample.timestamp) index++;
+        const fixation = fixations[index];
+        return fixation && fixation.start <= sample.timestamp ? String(index + 1) : '';
+    });
+};
+
+// One row per sample, booleans as 1/0 and missing values left empty, as most analysis tools expect.
+export const sessionLogToCsv = (log: GazeSessionLog) => {
+    const ids = fixationIds(log);
+    const rows = log.samples.map((s, i) => [
+        fixed(s.timestamp, 1), fixed(s.x, 1), fixed(s.y, 1), fixed(s.u, 4), fixed(s.v, 4), fixed(s.confidence, 3),
+        flag(s.eyes.right), flag(s.eyes.left),
+        fixed(s.rightEyeVector?.x, 5), fixed(s.rightEyeVector?.y, 5), fixed(s.leftEyeVector?.x, 5), fixed(s.leftEyeVector?.y, 5),
+        fixed(s.headPose?.yaw, 2), fixed(s.headPose?.pitch, 2), fixed(s.headPose?.roll, 2),
+        flag(s.flags.faceLost), flag(s.flags.blink), flag(s.flags.extremeHeadPose), flag(s.flags.offScreen), flag(s.flags.clamped),
+        ids[i], quote(s.aois.join(';')),
+    ].join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+export const sessionLogToJson = (log: GazeSessionLog) => JSON.stringify(log);
@@ -0,0 +1,155 @@
+import type { CalibrationData, DominantEye, GazeFilterSettings, GazePoint, GazeRecording, NormalizedLandmark, RecordedFrame, RecordedGaze, RecordedGazePoint } from '../types';
+import type { GazeEstimate } from './gazeEstimator';
+import { validateCalibrationData } from './calibrationStorage';
+
+export const RECORDING_FORMAT = 'react-eye-tracker/recording';
+export const RECORDING_VERSION = 1;
+export const RECORDING_FILE_EXTENSION = '.gazerec';
+
+// About ten minutes at 30fps; a frame holds every landmark, so later frames are dropped to bound memory.
+export const MAX_RECORDED_FRAMES = 18000;
+
+// Four decimal places keep sub-pixel precision for frames up to several thousand pixels wide.
+const LANDMARK_SCALE = 10000;
+
+const quantizeLandmarks = (landmarks: NormalizedLandmark[]) => {
+    const flat = new Array<number>(landmarks.length * 3);
+    landmarks.forEach((l, i) => {
+        flat[i * 3] = Math.round(l.x * LANDMARK_SCALE);
+        flat[i * 3 + 1] = Math.round(l.y * LANDMARK_SCALE);
+        flat[i * 3 + 2] = Math.round(l.z * LANDMARK_SCALE);
+    });
+    return flat;
+};
+
+export const decodeLandmarks = (flat: number[], scale: number): NormalizedLandmark[] => {
+    const landmarks: NormalizedLandmark[] = new Array(flat.length / 3);
+    for (let i = 0; i < landmarks.length; i++) {
+        landmarks[i] = { x: flat[i * 3] / scale, y: flat[i * 3 + 1] / scale, z: flat[i * 3 + 2] / scale };
+    }
+    return landmarks;
+};
+
+export const toRecordedGaze = (estimate: GazeEstimate): RecordedGaze => ({
+    vec_R: estimate.rightEye.vector,
+    vec_L: estimate.leftEye.vector,
+    combined: estimate.combinedVector,
+});
+
+// Gaze points are in window pixels; they are stored relative to the window so replays on another screen still line up.
+export const toRecordedGazePoint = (point: GazePoint, viewportWidth: number, viewportHeight: number): RecordedGazePoint => ({
+    u: point.x / viewportWidth,
+    v: point.y / viewportHeight,
+    confidence: point.confidence,
+    eyes: point.eyes,
+    flags: point.flags,
+});
+
+export interface RecordingMetadata {
+    frameWidth: number;
+    frameHeight: number;
+    calibration: CalibrationData | null;
+    filterSettings: GazeFilterSettings;
+    highSensitivity: boolean;
+    dominantEye: DominantEye;
+}
+
+/**
+ * Buffers landmarker results and the tracker's output frame by frame so a session can be
+ * saved and replayed later without a camera or the MediaPipe model. Replay re-estimates
+ * gaze from the landmarks and shows it next to what was recorded.
+ */
+export class SessionRecorder {
+    private recording: GazeRecording | null = null;
+    private startTimestamp: number | null = null;
+
+    get isRecording() {
+        return this.recording !== null;
+    }
+
+    get frameCount() {
+        return this.recording?.frames.length ?? 0;
+    }
+
+    start(metadata: RecordingMetadata) {
+        this.recording = {
+            format: RECORDING_FORMAT,
+            version: RECORDING_VERSION,
+            createdAt: Date.now(),
+            landmarkScale: LANDMARK_SCALE,
+            ...metadata,
+            frames: [],
+        };
+        this.startTimestamp = null;
+    }
+
+    // The calibration can change mid-session (e.g. after recalibrating); keep the latest one.
+    updateCalibration(calibration: CalibrationData | null) {
+        if (this.recording) this.recording.calibration = calibration;
+    }
+
+    addFrame(
+        timestamp: number,
+        faceLandmarks: NormalizedLandmark[][],
+        facialTransformationMatrixes: { data: number[] }[],
+        gazeEstimate: GazeEstimate | null,
+        gazePoint: GazePoint | null,
+    ) {
+        if (!this.recording || this.recording.frames.length >= MAX_RECORDED_FRAMES) return;
+        this.startTimestamp ??= timestamp;
+        const frame: RecordedFrame = {
+            timestamp: timestamp - this.startTimestamp,
+            faceLandmarks: faceLandmarks.map(quantizeLandmarks),
+            facialTransformationMatrixes: facialTransformationMatrixes.map(m => Array.from(m.data)),
+            gaze: gazeEstimate && toRecordedGaze(gazeEstimate),
+            point: gazePoint && toRecordedGazePoint(gazePoint, window.innerWidth, window.innerHeight),
+        };
+        this.recording.frames.push(frame);
+    }
+
+    stop(): GazeRecording | null {
+        const recording = this.recording;
+        this.recording = null;
+        this.startTimestamp = null;
+        return recording;
+    }
+}
+
+// --- Encoding ---
+
+// Recordings are gzip-compressed JSON; the landmark arrays compress very well.
+export const encodeRecording = async (recording: GazeRecording): Promise<Blob> => {
+    const json = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    const compressed = json.stream().pipeThrough(new CompressionStream('gzip'));
+    return new Response(compressed).blob();
+};
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+// Throws if the file isn't a recording or was written by an unsupported version.
+export const decodeRecording = async (blob: Blob): Promise<GazeRecording> => {
+    const header = new Uint8Array(await blob.slice(0, 2).arrayBuffer());
+    const text = isGzip(header)
+        ? await new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+        : await blob.text();
+
+    let recording: Partial<GazeRecording>;
+    try {
+        recording = JSON.parse(text);
+    } catch {
+        throw new Error('Recording is not valid JSON.');
+    }
+    if (!recording || recording.format !== RECORDING_FORMAT) {
+        throw new Error('File is not a gaze recording.');
+    }
+    if (recording.version !== RECORDING_VERSION) {
+        throw new Error(`Unsupported recording version ${recording.version} (expected ${RECORDING_VERSION}).`);
+    }
+    if (!Array.isArray(recording.frames) || !(recording.frameWidth! > 0) || !(recording.frameHeight! > 0) || !(recording.landmarkScale! > 0)) {
+        throw new Error('Recording is missing its frames or frame size.');
+    }
+    if (recording.calibration) {
+        validateCalibrationData(recording.calibration);
+    }
+    return recording as GazeRecording;
+};
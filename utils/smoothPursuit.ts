@@ -0,0 +1,91 @@
+import type { CalibrationPointData, CalibrationSample, GazeVector, HeadPose, NormalizedGazePoint, PursuitPath, PursuitSettings } from '../types';
+import { averageHeadPoses } from './headPose';
+import { applyMargin } from './calibrationPatterns';
+import { combineEyeAverages } from './eyeWeighting';
+
+export const PURSUIT_PATH_LABELS: Record<PursuitPath, string> = {
+    lissajous: 'Lissajous curve',
+    spiral: 'Spiral',
+};
+
+// Samples from the first moments of the sweep are dropped while the eyes catch up with the target.
+const PURSUIT_WARMUP_MS = 500;
+// The dense sample stream is averaged down to this many training points, which keeps the
+// kernel mappers and their leave-one-out cross-validation affordable.
+const PURSUIT_TRAINING_POINTS = 48;
+const MIN_SAMPLES_PER_POINT = 3;
+
+const LISSAJOUS_FREQUENCIES = { u: 3, v: 2 }; // Cycles per sweep
+const SPIRAL_TURNS = 4;
+
+/**
+ * Target position at a fraction (0 to 1) of the sweep. Both paths start in the center of the screen,
+ * where the idle marker is, and stay inside the margin.
+ */
+export const pursuitPosition = (path: PursuitPath, fraction: number, margin: number): NormalizedGazePoint => {
+    const t = Math.min(Math.max(fraction, 0), 1);
+    let point: NormalizedGazePoint;
+    if (path === 'spiral') {
+        const radius = 0.5 * t;
+        const angle = 2 * Math.PI * SPIRAL_TURNS * t;
+        point = { u: 0.5 + radius * Math.cos(angle), v: 0.5 + radius * Math.sin(angle) };
+    } else {
+        point = {
+            u: 0.5 + 0.5 * Math.sin(2 * Math.PI * LISSAJOUS_FREQUENCIES.u * t),
+            v: 0.5 + 0.5 * Math.sin(2 * Math.PI * LISSAJOUS_FREQUENCIES.v * t),
+        };
+    }
+    return applyMargin(point, margin);
+};
+
+const averageVectors = (vectors: GazeVector[]): GazeVector => ({
+    x: vectors.reduce((sum, v) => sum + v.x, 0) / vectors.length,
+    y: vectors.reduce((sum, v) => sum + v.y, 0) / vectors.length,
+});
+
+/**
+ * Pairs every pursuit sample with where the target was `latencyMs` earlier, then averages
+ * consecutive pairs into calibration points that the regular mappers can train on.
+ */
+export const buildPursuitTrainingPoints = (
+    samples: CalibrationSample[],
+    startTime: number,
+    settings: PursuitSettings,
+    margin: number
+): Record<string, CalibrationPointData> => {
+    const paired = samples
+        .map(sample => ({ sample, elapsed: sample.timestamp - settings.latencyMs - startTime }))
+        .filter(({ elapsed }) => elapsed >= PURSUIT_WARMUP_MS && elapsed <= settings.durationMs)
+        .map(({ sample, elapsed }) => ({
+            sample,
+            elapsed,
+            target: pursuitPosition(settings.path, elapsed / settings.durationMs, margin),
+        }));
+
+    // Bin by time rather than by count, so gaps left by blinks don't smear neighbouring targets together.
+    const binDuration = (settings.durationMs - PURSUIT_WARMUP_MS) / PURSUIT_TRAINING_POINTS;
+    const bins: (typeof paired)[] = Array.from({ length: PURSUIT_TRAINING_POINTS }, () => []);
+    for (const pair of paired) {
+        const index = Math.min(Math.floor((pair.elapsed - PURSUIT_WARMUP_MS) / binDuration), PURSUIT_TRAINING_POINTS - 1);
+        bins[index].push(pair);
+    }
+
+    const points: Record<string, CalibrationPointData> = {};
+    bins.forEach((bin, i) => {
+        if (bin.length < MIN_SAMPLES_PER_POINT) return;
+        const openRight = bin.filter(p => p.sample.eyesOpen.right);
+        const openLeft = bin.filter(p => p.sample.eyesOpen.left);
+        const gaze = combineEyeAverages(
+            openRight.length >= MIN_SAMPLES_PER_POINT ? averageVectors(openRight.map(p => p.sample.vec_R)) : null,
+            openLeft.length >= MIN_SAMPLES_PER_POINT ? averageVectors(openLeft.map(p => p.sample.vec_L)) : null,
+        );
+        if (!gaze) return;
+        const target = averageVectors(bin.map(p => ({ x: p.target.u, y: p.target.v })));
+        points[`pursuit_${i + 1}`] = {
+            ...gaze,
+            avgHeadPose: averageHeadPoses(bin.map(p => p.sample.headPose).filter((p): p is HeadPose => !!p)),
+            target: { u: target.x, v: target.y },
+        };
+    });
+    return points;
+};